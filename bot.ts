@@ -1,8 +1,14 @@
-import { Wit } from 'node-wit';
 import * as Loki from 'lokijs';
 import * as minimist from 'minimist';
 
-import { OpalBot } from './lib/opalbot';
+import * as path from 'path';
+
+import { OpalBot, Plugin } from './lib/opalbot';
+import { NLU } from './lib/nlu';
+import { WitNLU } from './lib/wit';
+import { RuleNLU } from './lib/rules';
+import { Vault } from './lib/secrets';
+import * as icsfile from './multical/icsfile';
 
 const STATUS_CHAN = 'bot-status';
 const DB_NAME = 'store.json';
@@ -21,17 +27,30 @@ function openDB(filename: string): Promise<Loki> {
  * Run the bot.
  */
 async function main() {
-  // Set up the service-agnostic infrastructure.
+  // Set up the service-agnostic infrastructure. Without a Wit token, fall
+  // back to our simple offline NLU.
   let wit_token = process.env['WIT_ACCESS_TOKEN'];
-  if (!wit_token) {
-    console.error("missing WIT_TOKEN");
-    return;
+  let nlu: NLU;
+  if (wit_token) {
+    nlu = new WitNLU(wit_token);
+  } else {
+    console.error("missing WIT_ACCESS_TOKEN; using offline rules for NLU");
+    nlu = new RuleNLU();
   }
   let web_url = process.env['WEB_URL'] || 'http://localhost:5000';
+
+  // The key for encrypting users' calendar credentials.
+  let secret_key = process.env['OPAL_SECRET_KEY'];
+  if (!secret_key) {
+    console.error("missing OPAL_SECRET_KEY; credentials will be stored " +
+                  "in plaintext");
+  }
+
   let bot = new OpalBot(
-    new Wit({ accessToken: wit_token }),
+    nlu,
     await openDB(DB_NAME),
     web_url,
+    new Vault(secret_key || null),
   );
 
   // Office 365.
@@ -43,10 +62,32 @@ async function main() {
 
   // Parse the command-line options.
   let opts = minimist(process.argv.slice(2), {
-    boolean: [ 'term', 'fb', 'slack', 'web' ],
-    alias: { 'term': ['t'], 'fb': ['f'], 'slack': ['s'], 'web': ['w'] },
+    boolean: [ 'term', 'fb', 'slack', 'web', 'rotate-key' ],
+    string: [ 'plugin', 'calendar' ],
+    alias: { 'term': ['t'], 'fb': ['f'], 'slack': ['s'], 'web': ['w'],
+             'plugin': ['p'], 'calendar': ['c'] },
   });
 
+  // Re-encrypt stored credentials, from the key in OPAL_OLD_SECRET_KEY (or
+  // plaintext, if it's not set) to the one in OPAL_SECRET_KEY, and then stop.
+  if (opts['rotate-key']) {
+    let old_key = process.env['OPAL_OLD_SECRET_KEY'];
+    await bot.rekey(new Vault(old_key || null));
+    console.log("re-encrypted stored credentials");
+    return;
+  }
+
+  // A local .ics file to use in terminal mode until a calendar is set up.
+  if (opts['calendar']) {
+    bot.defaultCalendar = new icsfile.Calendar(path.resolve(opts['calendar']));
+  }
+
+  // Plugins. Each is a module whose default export is a `Plugin`.
+  for (let name of [].concat(opts['plugin'] || [])) {
+    let plugin: Plugin = require(path.resolve(name)).default;
+    bot.use(plugin);
+  }
+
   // Slack.
   if (opts['slack']) {
     let slack_token = process.env['SLACK_BOT_TOKEN'];
@@ -80,6 +121,10 @@ async function main() {
   if (opts['term']) {
     bot.runTerminal();
   }
+
+  // Background jobs, like daily digests.
+  bot.scheduler.start();
+  bot.runCacheStats();
 }
 
 main();
@@ -0,0 +1,99 @@
+/**
+ * Meetings that people outside the bot book through a user's public booking
+ * page.
+ */
+
+/**
+ * A time that someone booked with a user.
+ */
+export interface Booking {
+  /**
+   * The database ID of the user they're meeting with.
+   */
+  user: number;
+
+  /**
+   * The meeting's start and end, as Unix timestamps in milliseconds.
+   */
+  start: number;
+  end: number;
+
+  /**
+   * Who booked it.
+   */
+  name: string;
+  email: string;
+}
+
+/**
+ * Check whether a string looks enough like an email address to send
+ * someone a meeting invitation.
+ */
+export function isEmail(s: string) {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(s);
+}
+
+/**
+ * The database of bookings. We keep these so that a time someone just
+ * booked isn't offered again before it shows up on the user's calendar.
+ */
+export class BookingLog {
+  public bookings: LokiCollection<Booking>;
+
+  /**
+   * The end of the chain of bookings in progress for each user. Bookings
+   * for the same user happen one at a time so that two visitors can't both
+   * get the same time.
+   */
+  private pending = new Map<number, Promise<any>>();
+
+  constructor(
+    public db: Loki,
+  ) {
+    this.bookings = (db.getCollection("bookings") ||
+      db.addCollection("bookings")) as LokiCollection<Booking>;
+  }
+
+  /**
+   * Check whether a user has a booking that overlaps a range of time (given
+   * as Unix timestamps in milliseconds).
+   */
+  conflicts(user: number, start: number, end: number): boolean {
+    return !!this.bookings.findOne({
+      user,
+      start: { '$lt': end },
+      end: { '$gt': start },
+    });
+  }
+
+  /**
+   * Record a new booking, forgetting any that are over.
+   */
+  add(booking: Booking, now = Date.now()) {
+    let old = this.bookings.chain().find({ end: { '$lt': now } }).data();
+    for (let b of old) {
+      this.bookings.remove(b);
+    }
+    this.bookings.insert(booking);
+    this.db.saveDatabase();
+  }
+
+  /**
+   * Run a booking for a user once any others in progress for them are done.
+   * Produces whatever `f` does.
+   */
+  exclusive<T>(user: number, f: () => Promise<T>): Promise<T> {
+    let last = this.pending.get(user) || Promise.resolve();
+    let result = last.then(f);
+    let done = result.catch(() => {});  // Keep going after failures.
+    this.pending.set(user, done);
+
+    // Don't hang on to finished chains.
+    done.then(() => {
+      if (this.pending.get(user) === done) {
+        this.pending.delete(user);
+      }
+    });
+    return result;
+  }
+}
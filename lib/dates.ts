@@ -0,0 +1,280 @@
+/**
+ * Understanding ranges of dates and times in messages.
+ */
+
+import * as moment from 'moment-timezone';
+import * as nlu from './nlu';
+import * as freebusy from '../multical/freebusy';
+
+/**
+ * A span of time, from `start` (inclusive) to `end` (exclusive).
+ */
+export type Range = [moment.Moment, moment.Moment];
+
+/**
+ * The name of the NLU entity for dates and times.
+ */
+const DATETIME_ENTITY = 'datetime';
+
+/**
+ * A single point in time with a granularity, as in Wit's `datetime` entity.
+ * The `value` is an ISO 8601 string with an offset and the `grain` is a unit
+ * like `day` or `hour`.
+ */
+interface DateTimeValue {
+  value: string;
+  grain: moment.unitOfTime.StartOf;
+}
+
+/**
+ * The structure of a `datetime` entity's data. Wit produces either a single
+ * value (e.g., "tomorrow" is a value with a `day` grain) or an interval
+ * with one or both ends (e.g., "tomorrow afternoon").
+ */
+interface DateTimeData {
+  type: 'value' | 'interval';
+  value?: string;
+  grain?: moment.unitOfTime.StartOf;
+  from?: DateTimeValue;
+  to?: DateTimeValue;
+}
+
+/**
+ * The hours covered by parts of the day.
+ */
+const DAY_PARTS: { [name: string]: [number, number] } = {
+  morning: [8, 12],
+  afternoon: [12, 17],
+  evening: [17, 22],
+  tonight: [17, 24],
+  night: [17, 24],
+};
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday',
+                  'friday', 'saturday'];
+
+/**
+ * Convert a point in time from the NLU into a Moment in the same zone as
+ * `now`. We use the zone itself rather than its current offset so that
+ * ranges crossing a DST change come out right.
+ */
+function momentIn(value: string, now: moment.Moment) {
+  let zone = now.tz();
+  if (zone) {
+    return moment.tz(value, zone);
+  }
+  return moment(value).utcOffset(now.utcOffset());
+}
+
+/**
+ * Get the range of time covered by a `datetime` entity.
+ */
+export function rangeFromEntity(entity: nlu.Entity, now = moment()):
+  Range | null
+{
+  let data: DateTimeData = entity.data || {};
+
+  if (data.type === 'interval') {
+    if (data.from && data.to) {
+      return [momentIn(data.from.value, now), momentIn(data.to.value, now)];
+    } else if (data.from) {
+      // Open-ended: cover the rest of the day (e.g., "after 3pm").
+      let start = momentIn(data.from.value, now);
+      return [start, start.clone().endOf('day')];
+    } else if (data.to) {
+      return [now.clone(), momentIn(data.to.value, now)];
+    }
+    return null;
+  }
+
+  let value = data.value || entity.value;
+  if (!value) {
+    return null;
+  }
+  let start = momentIn(value, now);
+  let grain = data.grain || 'day';
+  return [start, start.clone().add(1, grain as moment.unitOfTime.Base)];
+}
+
+/**
+ * Find the day (or days) mentioned in a phrase.
+ */
+function parseDays(s: string, today: moment.Moment): Range | null {
+  let day = (offset: number): Range => {
+    let start = today.clone().add(offset, 'days');
+    return [start, start.clone().add(1, 'day')];
+  };
+
+  if (/\btoday\b|\btonight\b|\bthis (morning|afternoon|evening)\b/.test(s)) {
+    return day(0);
+  } else if (/\btomorrow\b/.test(s)) {
+    return day(1);
+  } else if (/\byesterday\b/.test(s)) {
+    return day(-1);
+  }
+
+  // Weeks, weekends, and months.
+  let match = s.match(/\b(this|next|last) (week|weekend|month)\b/);
+  if (match) {
+    let offsets: { [word: string]: number } = { this: 0, next: 1, last: -1 };
+    let offset = offsets[match[1]];
+    if (match[2] === 'month') {
+      let start = today.clone().startOf('month').add(offset, 'months');
+      return [start, start.clone().add(1, 'month')];
+    }
+
+    let week = today.clone().startOf('week').add(offset, 'weeks');
+    if (match[2] === 'weekend') {
+      let saturday = week.clone().day(6);
+      return [saturday, saturday.clone().add(2, 'days')];
+    }
+    return [week, week.clone().add(1, 'week')];
+  }
+
+  // Days of the week.
+  match = s.match(new RegExp(`\\b(next |last )?(${WEEKDAYS.join('|')})\\b`));
+  if (match) {
+    let dow = WEEKDAYS.indexOf(match[2]);
+    let start: moment.Moment;
+    if (match[1] === 'next ') {
+      start = today.clone().startOf('week').add(1, 'week').day(dow);
+    } else if (match[1] === 'last ') {
+      start = today.clone().startOf('week').subtract(1, 'week').day(dow);
+    } else {
+      // The next occurrence, counting today.
+      start = today.clone().day(dow);
+      if (start.isBefore(today)) {
+        start.add(1, 'week');
+      }
+    }
+    return [start, start.clone().add(1, 'day')];
+  }
+
+  return null;
+}
+
+/**
+ * Parse a range of time from common phrases like "tomorrow afternoon",
+ * "next week", or "on friday". Return null if we don't recognize anything.
+ */
+export function parseRange(text: string, now = moment()): Range | null {
+  let s = text.toLowerCase();
+  let today = now.clone().startOf('day');
+
+  // Find a part of the day, if any.
+  let partMatch = s.match(/\b(morning|afternoon|evening|tonight|night)\b/);
+  let part = partMatch ? DAY_PARTS[partMatch[1]] : null;
+
+  let days = parseDays(s, today);
+  if (!days) {
+    if (!part) {
+      return null;
+    }
+    days = [today, today.clone().add(1, 'day')];  // "in the afternoon"
+  }
+
+  // Narrow a single day to the part of the day.
+  if (part && days[1].diff(days[0], 'days') === 1) {
+    return [
+      freebusy.atHour(days[0], part[0]),
+      freebusy.atHour(days[0], part[1]),
+    ];
+  }
+  return days;
+}
+
+/**
+ * Parse a time of day like "8am", "7:30", or "18:00". Produces the hour (in
+ * 24-hour time) and minute, or null if there is no time in the text.
+ */
+export function parseTimeOfDay(text: string): [number, number] | null {
+  let match = text.match(/\b(\d{1,2})(?::(\d\d))?\s*(am|pm|a\.m\.|p\.m\.)?(?!\w)/i);
+  if (!match || (!match[2] && !match[3])) {
+    return null;  // A bare number isn't clearly a time.
+  }
+
+  let hour = parseInt(match[1]);
+  let minute = match[2] ? parseInt(match[2]) : 0;
+  let meridiem = match[3] ? match[3][0].toLowerCase() : null;
+  if (meridiem === 'p' && hour < 12) {
+    hour += 12;
+  } else if (meridiem === 'a' && hour === 12) {
+    hour = 0;
+  }
+
+  if (hour > 23 || minute > 59) {
+    return null;
+  }
+  return [hour, minute];
+}
+
+/**
+ * Get the next time, strictly after `now`, when the clock reads a given time
+ * of day.
+ */
+export function nextTimeOfDay(hour: number, minute: number, now = moment()) {
+  let next = now.clone().startOf('day').hours(hour).minutes(minute);
+  if (!next.isAfter(now)) {
+    next.add(1, 'day');
+  }
+  return next;
+}
+
+/**
+ * Describe a time of day for humans.
+ */
+export function formatTimeOfDay(hour: number, minute: number) {
+  return moment({ hour, minute }).format('h:mm a');
+}
+
+/**
+ * Find an IANA time zone name, like "America/New_York", in a message. We
+ * also accept just the city ("new york"). Return null if there is none.
+ */
+export function parseTimezone(text: string): string | null {
+  // Zone names use underscores for spaces.
+  let words = text.trim().toLowerCase().replace(/\s+/g, '_');
+  let mentions = (name: string) => {
+    let escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|_)${escaped}($|_|[.!?])`).test(words);
+  };
+
+  for (let name of moment.tz.names()) {
+    let lower = name.toLowerCase();
+    let slash = lower.lastIndexOf('/');
+    if (mentions(lower) || (slash !== -1 && mentions(lower.slice(slash + 1)))) {
+      return name;
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the range of time a message refers to, if any. We prefer the NLU
+ * backend's understanding and fall back to our own phrase parser.
+ */
+export function findRange(res: nlu.Result, now = moment()): Range | null {
+  let entity = nlu.getEntity(res, DATETIME_ENTITY);
+  if (entity) {
+    let range = rangeFromEntity(entity, now);
+    if (range) {
+      return range;
+    }
+  }
+  return parseRange(res.text, now);
+}
+
+/**
+ * Describe a range of time for humans.
+ */
+export function formatRange([start, end]: Range) {
+  let last = end.clone().subtract(1, 'ms');
+  if (start.isSame(last, 'day')) {
+    if (start.isSame(start.clone().startOf('day')) &&
+        end.diff(start, 'days') === 1) {
+      return start.format('ddd MMM D');
+    }
+    return `${start.format('ddd MMM D, h:mm a')}–${end.format('h:mm a')}`;
+  }
+  return `${start.format('ddd MMM D')}–${last.format('ddd MMM D')}`;
+}
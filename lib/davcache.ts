@@ -0,0 +1,109 @@
+/**
+ * A database-backed cache of users' CalDAV calendars, so that we only need
+ * to fetch the events that have changed.
+ */
+
+import * as caldav from '../multical/caldav';
+
+/**
+ * An event resource stored for a user.
+ */
+interface StoredResource extends caldav.CachedResource {
+  user: number;
+  calendar: string;
+}
+
+/**
+ * The sync state of a calendar collection stored for a user.
+ */
+interface StoredState extends caldav.SyncState {
+  user: number;
+  calendar: string;
+}
+
+/**
+ * One user's cached calendars. Each user gets their own copy, even of a
+ * calendar shared with someone else, since they might see it differently.
+ */
+export class DavCache implements caldav.Cache {
+  public resourceDocs: LokiCollection<StoredResource>;
+  public stateDocs: LokiCollection<StoredState>;
+
+  constructor(
+    public db: Loki,
+    public user: number,
+  ) {
+    this.resourceDocs = (db.getCollection("davresources") ||
+      db.addCollection("davresources")) as LokiCollection<StoredResource>;
+    this.stateDocs = (db.getCollection("davstates") ||
+      db.addCollection("davstates")) as LokiCollection<StoredState>;
+  }
+
+  state(calendar: string): caldav.SyncState | null {
+    return this.stateDocs.findOne({ user: this.user, calendar }) || null;
+  }
+
+  resources(calendar: string): caldav.CachedResource[] {
+    return this.resourceDocs.chain().find({ user: this.user, calendar })
+      .data();
+  }
+
+  inRange(calendar: string, start: number, end: number) {
+    return this.resourceDocs.chain().find({
+      user: this.user,
+      calendar,
+      start: { '$lt': end },
+      end: { '$gt': start },
+    }).data();
+  }
+
+  put(calendar: string, resource: caldav.CachedResource) {
+    let old = this.resourceDocs.findOne({ user: this.user, calendar,
+                                          href: resource.href });
+    if (old) {
+      Object.assign(old, resource);
+      this.resourceDocs.update(old);
+    } else {
+      this.resourceDocs.insert({ ...resource, user: this.user, calendar });
+    }
+  }
+
+  remove(calendar: string, href: string) {
+    let old = this.resourceDocs.findOne({ user: this.user, calendar, href });
+    if (old) {
+      this.resourceDocs.remove(old);
+    }
+  }
+
+  commit(calendar: string, state: caldav.SyncState) {
+    let old = this.stateDocs.findOne({ user: this.user, calendar });
+    if (old) {
+      Object.assign(old, state);
+      this.stateDocs.update(old);
+    } else {
+      this.stateDocs.insert({ ...state, user: this.user, calendar });
+    }
+    this.db.saveDatabase();
+  }
+
+  /**
+   * Forget the calendars the user no longer uses.
+   */
+  retain(calendars: string[]) {
+    let keep = new Set(calendars);
+    let drop = (doc: { calendar: string }) => !keep.has(doc.calendar);
+    let resources = this.resourceDocs.chain().find({ user: this.user })
+      .data().filter(drop);
+    let states = this.stateDocs.chain().find({ user: this.user })
+      .data().filter(drop);
+    for (let doc of resources) {
+      this.resourceDocs.remove(doc);
+    }
+    for (let doc of states) {
+      this.stateDocs.remove(doc);
+    }
+    if (resources.length || states.length) {
+      this.db.saveDatabase();
+    }
+  }
+}
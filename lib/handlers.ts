@@ -0,0 +1,135 @@
+/**
+ * A registry for dispatching new conversations to handlers based on what
+ * the NLU backend recognized in their first message.
+ */
+
+import { Conversation } from '../multibot';
+import * as nlu from './nlu';
+
+/**
+ * The function that carries out a conversation.
+ */
+export type HandlerFunction =
+  (conv: Conversation, res: nlu.Result) => Promise<void>;
+
+/**
+ * A handler declares what it responds to and how to respond.
+ *
+ * A handler responds to an intent, an entity, or both (in which case both
+ * must be present). When several handlers match a message, the one with the
+ * highest `priority` wins; ties go to the more confident match and then to
+ * the handler registered first.
+ */
+export interface Handler {
+  /**
+   * The intent that triggers this handler.
+   */
+  intent?: string;
+
+  /**
+   * The name of an entity whose presence triggers this handler.
+   */
+  entity?: string;
+
+  /**
+   * The precedence of this handler. Defaults to zero.
+   */
+  priority?: number;
+
+  /**
+   * The minimum confidence for the intent or entity. Defaults to zero.
+   */
+  confidence?: number;
+
+  /**
+   * Carry out the conversation.
+   */
+  handle: HandlerFunction;
+}
+
+/**
+ * Get the confidence with which a handler matches a message, or null if it
+ * does not match.
+ */
+function matchConfidence(handler: Handler, res: nlu.Result): number | null {
+  let min = handler.confidence || 0;
+  let confidence = 1;
+
+  if (handler.intent) {
+    let intent = res.intents.find(i =>
+      i.value === handler.intent && i.confidence >= min
+    );
+    if (!intent) {
+      return null;
+    }
+    confidence = Math.min(confidence, intent.confidence);
+  }
+
+  if (handler.entity) {
+    let entity = nlu.getEntity(res, handler.entity);
+    if (!entity || entity.confidence < min) {
+      return null;
+    }
+    confidence = Math.min(confidence, entity.confidence);
+  }
+
+  // A handler that declares nothing matches nothing.
+  if (!handler.intent && !handler.entity) {
+    return null;
+  }
+  return confidence;
+}
+
+/**
+ * A set of handlers and a fallback for messages that none of them match.
+ */
+export class Registry {
+  public handlers: Handler[] = [];
+
+  constructor(
+    public fallback: HandlerFunction,
+  ) {}
+
+  /**
+   * Register a new handler.
+   */
+  add(handler: Handler) {
+    this.handlers.push(handler);
+  }
+
+  /**
+   * Find the best handler for a message, if any.
+   */
+  match(res: nlu.Result): Handler | null {
+    let best: Handler | null = null;
+    let bestPriority = 0;
+    let bestConfidence = 0;
+    for (let handler of this.handlers) {
+      let confidence = matchConfidence(handler, res);
+      if (confidence === null) {
+        continue;
+      }
+
+      let priority = handler.priority || 0;
+      if (!best || priority > bestPriority ||
+          (priority === bestPriority && confidence > bestConfidence)) {
+        best = handler;
+        bestPriority = priority;
+        bestConfidence = confidence;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Carry out a conversation using the best handler for its first message.
+   */
+  async dispatch(conv: Conversation, res: nlu.Result) {
+    let handler = this.match(res);
+    if (handler) {
+      await handler.handle(conv, res);
+    } else {
+      await this.fallback(conv, res);
+    }
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * A common interface for natural-language understanding backends.
+ */
+
+import * as moment from 'moment-timezone';
+
+/**
+ * Something recognized in a message: an intent or an entity.
+ */
+export interface Entity {
+  /**
+   * The recognized value (e.g., the name of an intent).
+   */
+  value: string;
+
+  /**
+   * How sure the backend is about this value, from 0 to 1.
+   */
+  confidence: number;
+
+  /**
+   * The backend's full representation of the entity, for entities with more
+   * structure than a single value (e.g., dates and times).
+   */
+  data?: any;
+}
+
+/**
+ * The result of understanding a message.
+ */
+export interface Result {
+  /**
+   * The original message.
+   */
+  text: string;
+
+  /**
+   * The possible intents, most confident first.
+   */
+  intents: Entity[];
+
+  /**
+   * Other entities, by name. Each list is ordered most confident first.
+   */
+  entities: { [name: string]: Entity[] };
+}
+
+/**
+ * What a backend needs to know about the sender to understand a message.
+ */
+export interface Context {
+  /**
+   * The sender's time zone, for dates and times like "tomorrow".
+   */
+  zone: string;
+
+  /**
+   * The current time, which relative dates and times are measured from.
+   */
+  now: moment.Moment;
+}
+
+/**
+ * An NLU backend turns messages into intents and entities.
+ */
+export interface NLU {
+  parse(text: string, context?: Context): Promise<Result>;
+}
+
+/**
+ * Get the most confident entity with a given name (or null if no such
+ * entity exists).
+ */
+export function getEntity(res: Result, name: string): Entity | null {
+  let entities = res.entities[name];
+  if (entities && entities.length) {
+    return entities[0];
+  }
+  return null;
+}
+
+/**
+ * Get the value of the most confident entity with a given name.
+ */
+export function entityValue(res: Result, name: string): string | null {
+  let entity = getEntity(res, name);
+  if (entity) {
+    return entity.value;
+  } else {
+    return null;
+  }
+}
+
+/**
+ * Get the most confident intent, if any.
+ */
+export function topIntent(res: Result): Entity | null {
+  return res.intents.length ? res.intents[0] : null;
+}
+
+/**
+ * Sort entities so the most confident come first.
+ */
+export function byConfidence(entities: Entity[]): Entity[] {
+  return entities.sort((a, b) => b.confidence - a.confidence);
+}
@@ -3,57 +3,401 @@
  */
 
 import * as util from 'util';
-import { Bot, Conversation } from '../multibot';
-import { SlackBot } from '../multibot/slackbot';
+import { Bot, Conversation, TIMEOUT, CANCELLED } from '../multibot';
+import { SlackBot, mentions, mention } from '../multibot/slackbot';
 import { TerminalBot } from '../multibot/termbot';
 import { FacebookBot } from '../multibot/fbbot';
 import { WebBot } from "../multibot/webbot";
-import { Wit } from 'node-wit';
-import * as wit from './wit';
+import * as nlu from './nlu';
+import { Registry } from './handlers';
 import * as libweb from '../libweb';
 import * as http from 'http';
 import * as path from 'path';
 import fetch from 'node-fetch';
-import { findURL, gitSummary, IVars, randomString } from './util';
+import { findURL, gitSummary, IVars, randomString, isYes,
+  isCancel } from './util';
 import * as caldav from '../multical/caldav';
 import * as office from '../multical/office';
-import { Calendar } from '../multical/calbase';
-import * as moment from 'moment';
+import * as webcal from '../multical/webcal';
+import * as aggregate from '../multical/aggregate';
+import * as cache from '../multical/cache';
+import * as freebusy from '../multical/freebusy';
+import * as icsutil from '../multical/icsutil';
+import { Calendar, Event } from '../multical/calbase';
+import * as moment from 'moment-timezone';
 import * as nunjucks from 'nunjucks';
+import * as schedule from './schedule';
+import * as dates from './dates';
+import { Vault, Sealed } from './secrets';
+import { Scheduler, Job } from './scheduler';
+import * as reminders from './reminders';
+import { DavCache } from './davcache';
+import { BookingLog, isEmail } from './bookings';
+
+/**
+ * The number of candidate times to offer when scheduling a meeting.
+ */
+const PROPOSED_SLOTS = 5;
+
+/**
+ * How long to wait for a reply in a conversation before giving up (in
+ * milliseconds).
+ */
+const RECV_TIMEOUT = 10 * 60 * 1000;
+
+/**
+ * How long a code for linking accounts stays valid (in milliseconds).
+ */
+const LINK_CODE_TIMEOUT = 10 * 60 * 1000;
+
+/**
+ * When to send the daily digest if the user doesn't say.
+ */
+const DEFAULT_DIGEST_TIME: [number, number] = [8, 0];
+
+/**
+ * How many minutes before an event to remind the user if they don't say.
+ */
+const DEFAULT_REMINDER_MINUTES = 10;
+
+/**
+ * How often to check users' calendars for events to remind them about (in
+ * milliseconds).
+ */
+const REMINDER_POLL_INTERVAL = 5 * 60 * 1000;
+
+/**
+ * How often to log how well the calendar caches are working (in
+ * milliseconds).
+ */
+const CACHE_STATS_INTERVAL = 60 * 60 * 1000;
+
+/**
+ * How far back and ahead to include events in published calendar feeds (in
+ * days).
+ */
+const FEED_PAST_DAYS = 30;
+const FEED_FUTURE_DAYS = 180;
+
+/**
+ * The length of the secret tokens in the URLs of calendar feeds and booking
+ * pages.
+ */
+const TOKEN_LENGTH = 32;
+
+/**
+ * How far ahead visitors can book time on someone's booking page (in days)
+ * and how long each meeting is (in minutes).
+ */
+const BOOKING_DAYS = 14;
+const BOOKING_MINUTES = 30;
+
+/**
+ * The chat services where everyone shares one account, so an account there
+ * doesn't identify a person. (Every web chat visitor is the same user.)
+ */
+const SHARED_NAMESPACES = ['web'];
 
 /**
  * Our data model for keeping track of users' data.
  */
 interface User {
-  slack_id: string;
+  /**
+   * The database's ID for the user, which jobs use to refer to them.
+   */
+  $loki?: number;
+
+  /**
+   * The chat accounts that belong to this person, as keys produced by
+   * `accountKey`. One person may use the bot from several services.
+   */
+  accounts: string[];
+
   settings: Settings;
+
+  /**
+   * The secrets in the URLs of this person's published calendar feeds: one
+   * for the feed with their events and one for the feed with just the times
+   * they're busy. Each is only set while they share that feed, and changing
+   * it revokes the old URL. The two are separate so that having the
+   * free/busy link doesn't give away the events.
+   */
+  eventsToken?: string;
+  busyToken?: string;
+
+  /**
+   * The token in the URL of this person's public booking page, if they
+   * have one.
+   */
+  bookingToken?: string;
 }
 
 /**
- * Settings that users can configure in the web interface.
+ * The pre-namespace data model, where every user was on Slack.
  */
-interface Settings {
-  service?: 'caldav' | 'office';
+interface LegacyUser {
+  slack_id?: string;
+  accounts?: string[];
+  settings: LegacySettings;
+}
+
+/**
+ * The kinds of calendar feed we publish: a user's events or just the times
+ * they're busy.
+ */
+type FeedKind = 'events' | 'busy';
+
+/**
+ * The user field holding the token for each kind of feed.
+ */
+const FEED_TOKENS: { [kind: string]: 'eventsToken' | 'busyToken' } = {
+  events: 'eventsToken',
+  busy: 'busyToken',
+};
+
+/**
+ * Identify a chat account uniquely across all services.
+ */
+function accountKey(namespace: string, id: string) {
+  return `${namespace}:${id}`;
+}
+
+/**
+ * Split an account key into its namespace and ID.
+ */
+function parseAccountKey(key: string): [string, string] {
+  let i = key.indexOf(':');
+  return [key.slice(0, i), key.slice(i + 1)];
+}
+
+/**
+ * The calendar services we can connect to.
+ */
+type Service = 'caldav' | 'office' | 'webcal';
+
+/**
+ * A calendar that a user has connected, with the details for the service
+ * it's on.
+ *
+ * The secret fields (the CalDAV password, the Office token, and the feed
+ * URL, which often embeds a private token) are sealed when they are stored
+ * in the database; see `mapSecrets`.
+ */
+interface Source {
+  /**
+   * What the user calls this calendar, like "work" or "family".
+   */
+  label: string;
+
+  /**
+   * Whether events on this calendar keep us from scheduling meetings then.
+   * Users might turn this off for, say, a shared holidays calendar.
+   */
+  availability: boolean;
+
+  service: Service;
   caldav?: {
     url: string;
     username: string;
-    password: string;
+    password: string | Sealed;
+
+    /**
+     * The calendar collections the user picked from those on the server.
+     * Older settings lack this, in which case `url` is the calendar itself.
+     */
+    calendars?: string[];
   };
-  officeToken?: office.Token;
+  officeToken?: office.StoredToken | Sealed;
+  webcal?: {
+    url: string | Sealed;
+  };
+}
+
+/**
+ * Check whether we can add events to a calendar. Subscriptions to published
+ * feeds are read-only.
+ */
+function isWritable(source: Source) {
+  return source.service !== 'webcal';
+}
+
+/**
+ * Settings that users can configure in the web interface.
+ */
+interface Settings {
+  /**
+   * The user's calendars. We combine them into one.
+   */
+  sources?: Source[];
+
+  /**
+   * The IANA name of the user's time zone, like "America/New_York".
+   */
+  timezone?: string;
+}
+
+/**
+ * Someone else involved in a conversation, along with their calendar.
+ */
+interface Participant {
+  id: string;
+  user: User;
+  calendar: Calendar;
+}
+
+/**
+ * The settings from before users could have several calendars, when the
+ * details for their single calendar were at the top level.
+ */
+type LegacySettings = Settings & Partial<Source>;
+
+/**
+ * The names of the services for humans, and the default labels for their
+ * calendars.
+ */
+const SERVICE_NAMES: { [service: string]: string } = {
+  caldav: "CalDAV",
+  office: "Office 365",
+  webcal: "Subscription",
+};
+
+/**
+ * Check whether a user has connected any calendars.
+ */
+function hasSources(settings: Settings) {
+  return !!(settings.sources && settings.sources.length);
 }
 
 /**
- * Get a quick text summary of things on a calendar.
+ * Transform the secret fields in some settings, producing new settings.
  */
-async function getSomeEvents(cal: Calendar) {
-  let events = await cal.getEvents(moment(), moment().add(7, 'days'));
+function mapSecrets(settings: Settings, f: (value: any) => any): Settings {
+  let out = { ...settings };
+  if (settings.sources) {
+    out.sources = settings.sources.map(source => {
+      let mapped = { ...source };
+      if (source.caldav) {
+        mapped.caldav = { ...source.caldav,
+                          password: f(source.caldav.password) };
+      }
+      if (source.officeToken) {
+        mapped.officeToken = f(source.officeToken);
+      }
+      if (source.webcal) {
+        mapped.webcal = { url: f(source.webcal.url) };
+      }
+      return mapped;
+    });
+  }
+  return out;
+}
+
+/**
+ * Get a quick text summary of things on a calendar in a range of time,
+ * showing times in a given zone.
+ */
+async function getSomeEvents(cal: Calendar, [start, end]: dates.Range,
+                             zone: string) {
+  let events = await cal.getEvents(start, end);
+  if (!events.length) {
+    return `nothing on your calendar for ${dates.formatRange([start, end])}`;
+  }
   let out = [];
   for (let event of events) {
-    out.push(`${event.start.format()}: ${event.title}`);
+    let time = event.start.clone().tz(zone).format('ddd MMM D, h:mm a');
+    out.push(`${time}: ${event.title}`);
   }
   return out.join('\n');
 }
 
+/**
+ * Get the version of an event to publish in a calendar feed. Private events
+ * only show up as busy time.
+ */
+function publicEvent(event: Event): Event {
+  if (event.privacy === 'private' || event.privacy === 'confidential') {
+    let { id, uid, start, end, allDay } = event;
+    return { id, uid, title: "Busy", start, end, allDay };
+  }
+  return event;
+}
+
+/**
+ * Get a single value from submitted form data. A field that appears more
+ * than once (or not at all) is treated as empty.
+ */
+function formField(data: { [k: string]: any }, name: string): string {
+  let value = data[name];
+  return typeof value === 'string' ? value : '';
+}
+
+/**
+ * Group times for the booking page by day, with their labels.
+ */
+function slotsByDay(slots: schedule.Slot[]) {
+  let days: { label: string, slots: { value: number, label: string }[] }[] =
+    [];
+  for (let slot of slots) {
+    let label = slot.start.format('dddd, MMMM D');
+    if (!days.length || days[days.length - 1].label !== label) {
+      days.push({ label, slots: [] });
+    }
+    days[days.length - 1].slots.push({
+      value: slot.start.valueOf(),
+      label: slot.start.format('h:mm a'),
+    });
+  }
+  return days;
+}
+
+/**
+ * The scheduler key for a user's daily digest.
+ */
+function digestKey(user: User) {
+  return `digest:${user.$loki}`;
+}
+
+/**
+ * The scheduler key for checking a user's calendar for upcoming events.
+ */
+function remindersKey(user: User) {
+  return `reminders:${user.$loki}`;
+}
+
+/**
+ * The scheduler key for sending a single reminder.
+ */
+function reminderKey(reminder: reminders.Reminder) {
+  return `reminder:${reminder.user}:${reminder.occurrence}`;
+}
+
+/**
+ * Wrap a conversation so that waiting for a reply eventually gives up and so
+ * that the user can leave any multi-turn interaction by saying "cancel" or
+ * "never mind". Either way, the pending `recv` fails with `TIMEOUT` or
+ * `CANCELLED`.
+ */
+function guarded(conv: Conversation): Conversation {
+  return {
+    user: conv.user,
+    namespace: conv.namespace,
+    send: (text: string) => conv.send(text),
+    cancel: () => conv.cancel(),
+    recv: async (timeout = RECV_TIMEOUT) => {
+      let text = await conv.recv(timeout);
+      if (isCancel(text)) {
+        throw CANCELLED;
+      }
+      return text;
+    },
+  };
+}
+
+/**
+ * A plugin extends the bot, for example by registering new handlers.
+ */
+export type Plugin = (bot: OpalBot) => void;
+
 /**
  * The main logic for the Opal bot.
  */
@@ -68,28 +412,205 @@ export class OpalBot {
    */
   public webSessions = new IVars<Settings>();
 
+  /**
+   * The settings being edited in each web session, keyed by token. The
+   * secrets in these are not sealed.
+   */
+  public settingsDrafts = new Map<string, Settings>();
+
   /**
    * Routes for the web server.
    */
   public webRoutes: libweb.Route[] = [];
 
+  /**
+   * Outstanding one-time codes for linking accounts, mapped to the user who
+   * requested each one.
+   */
+  public linkCodes = new Map<string, User>();
+
+  /**
+   * The chat services we're connected to, by namespace.
+   */
+  public bots = new Map<string, Bot>();
+
   /**
    * Connection for authenticating with the Office 365 API.
    */
   public officeClient: office.Client | null = null;
 
+  /**
+   * The calendar to use in terminal mode when the user hasn't set one up,
+   * if any. This is for trying out the bot; users on other services always
+   * need their own calendar.
+   */
+  public defaultCalendar: Calendar | null = null;
+
+  /**
+   * Cached connections to users' calendars, so that looking at a calendar
+   * several times (say, during one conversation) doesn't go to the server
+   * each time. These are keyed by the stored source, so they're dropped when
+   * the user changes their settings.
+   */
+  public calendarCaches = new WeakMap<Source, {
+    zone: string,
+    calendar: cache.Calendar,
+  }>();
+
+  /**
+   * Users' Office 365 calendars that we lost access to, which they need to
+   * link again.
+   */
+  public expiredSources = new WeakSet<Source>();
+
+  /**
+   * The handlers that carry out conversations, chosen by intent.
+   */
+  public handlers = new Registry((conv) => this.handle_default(conv));
+
+  /**
+   * Jobs that run in the background, like daily digests.
+   */
+  public scheduler: Scheduler;
+
+  /**
+   * The upcoming events we're reminding users about.
+   */
+  public reminders: reminders.ReminderLog;
+
+  /**
+   * The meetings people have booked through users' booking pages.
+   */
+  public bookings: BookingLog;
+
   constructor(
-    public wit: Wit,
+    public nlu: nlu.NLU,
     public db: Loki,
     public webURL: string,
+    public vault = new Vault(null),
     public webdir = 'web',
   ) {
     // Get or create a database collection for users.
     this.users = (db.getCollection("users") ||
       db.addCollection("users")) as LokiCollection<User>;
+    this.migrateUsers();
 
     // Set up configuration web interface.
     this.webRoutes.push(this.settingsRoute());
+    this.webRoutes.push(...this.feedRoutes());
+    this.webRoutes.push(this.bookingRoute());
+
+    this.registerHandlers();
+
+    this.scheduler = new Scheduler(db);
+    this.scheduler.on('digest', (job) => this.sendDigest(job));
+
+    this.reminders = new reminders.ReminderLog(db);
+    this.scheduler.on('reminders', (job) => this.pollReminders(job));
+    this.scheduler.on('reminder', (job) => this.sendReminder(job));
+
+    this.bookings = new BookingLog(db);
+  }
+
+  /**
+   * Register the bot's built-in conversation handlers. Pleasantries take
+   * precedence over intents.
+   */
+  registerHandlers() {
+    this.handlers.add({
+      entity: "greetings", priority: 1,
+      handle: (conv) => this.handle_greeting(conv),
+    });
+    this.handlers.add({
+      entity: "bye", priority: 1,
+      handle: (conv) => this.handle_bye(conv),
+    });
+    this.handlers.add({
+      entity: "thanks", priority: 1,
+      handle: (conv) => this.handle_thanks(conv),
+    });
+    this.handlers.add({
+      intent: "show_calendar",
+      handle: (conv, res) => this.handle_show_calendar(conv, res),
+    });
+    this.handlers.add({
+      intent: "schedule_meeting",
+      handle: (conv, res) => this.handle_schedule_meeting(conv, res),
+    });
+    this.handlers.add({
+      intent: "setup_calendar",
+      handle: (conv) => this.handle_setup_calendar(conv),
+    });
+    this.handlers.add({
+      intent: "link_account",
+      handle: (conv, res) => this.handle_link_account(conv, res),
+    });
+    this.handlers.add({
+      intent: "digest",
+      handle: (conv, res) => this.handle_digest(conv, res),
+    });
+    this.handlers.add({
+      intent: "reminders",
+      handle: (conv, res) => this.handle_reminders(conv, res),
+    });
+    this.handlers.add({
+      intent: "timezone",
+      handle: (conv, res) => this.handle_timezone(conv, res),
+    });
+    this.handlers.add({
+      intent: "share_calendar",
+      handle: (conv, res) => this.handle_share_calendar(conv, res),
+    });
+    this.handlers.add({
+      intent: "booking_page",
+      handle: (conv, res) => this.handle_booking_page(conv, res),
+    });
+    this.handlers.add({
+      intent: "help",
+      handle: (conv) => this.handle_help(conv),
+    });
+  }
+
+  /**
+   * Extend the bot with a plugin.
+   */
+  use(plugin: Plugin) {
+    plugin(this);
+  }
+
+  /**
+   * Upgrade users stored under older data models: the Slack-only one, where
+   * users are not identified by namespaced account keys, and the one where
+   * each user had a single calendar.
+   */
+  migrateUsers() {
+    let migrated = false;
+    for (let user of this.users.find() as LegacyUser[]) {
+      if (user.slack_id && !user.accounts) {
+        user.accounts = [accountKey('slack', user.slack_id)];
+        delete user.slack_id;
+        this.users.update(user as User);
+        migrated = true;
+      }
+
+      let old = user.settings;
+      if (old.service) {
+        let source: Source = {
+          label: SERVICE_NAMES[old.service],
+          availability: true,
+          service: old.service,
+          caldav: old.caldav,
+          officeToken: old.officeToken,
+          webcal: old.webcal,
+        };
+        user.settings = { timezone: old.timezone, sources: [source] };
+        this.users.update(user as User);
+        migrated = true;
+      }
+    }
+    if (migrated) {
+      this.db.saveDatabase();
+    }
   }
 
   /**
@@ -97,49 +618,134 @@ export class OpalBot {
    */
   settingsRoute() {
     nunjucks.configure(this.webdir);
+
+    // CalDAV logins waiting for the user to pick calendars, keyed by token.
+    let discovered = new Map<string, {
+      source: Source,
+      calendars: caldav.CalendarInfo[],
+    }>();
+
     return new libweb.Route('/settings/:token', async (req, res, params) => {
       // Make sure we have a valid token.
       let token = params['token'];
-      if (!this.webSessions.has(token)) {
+      let draft = this.settingsDrafts.get(token);
+      if (!this.webSessions.has(token) || !draft) {
         res.statusCode = 404;
         res.end('invalid token');
         return;
       }
 
       if (req.method === 'GET') {
-        // Send the form.
-        let ctx: { [k: string]: string } = {};
+        // Send the form, listing the calendars so far.
+        let ctx: { [k: string]: any } = {
+          sources: (draft.sources || []).map(s => ({
+            label: s.label,
+            service: SERVICE_NAMES[s.service],
+            availability: s.availability,
+          })),
+        };
         if (this.officeClient) {
           let auth = await this.officeClient.authenticate();
           ctx['officeAuthURL'] = auth.url;
           auth.token.then(t => {
-            let settings: Settings = {
+            this.addSource(token, {
+              label: SERVICE_NAMES['office'],
+              availability: true,
               service: 'office',
               officeToken: t,
-            };
-            this.webSessions.put(token, settings);
+            });
           });
         }
         nunjucks.render('settings.html', ctx, (err, rendered) => {
           res.end(rendered);
         });
       } else if (req.method === 'POST') {
-        // Retrieve the settings.
         let data = await libweb.formdata(req);
-        if (data['service'] === 'caldav') {
-          let settings: Settings = {
-            service: 'caldav',
-            caldav: {
-              url: data['url'],
-              username: data['username'],
-              password: data['password'],
-            },
-          };
-          this.webSessions.put(token, settings);
+
+        // Finish editing.
+        let action = formField(data, 'action');
+        let service = formField(data, 'service');
+        if (action === 'done') {
+          let timezone = formField(data, 'timezone');
+          if (timezone && moment.tz.zone(timezone)) {
+            draft.timezone = timezone;
+          }
+          this.settingsDrafts.delete(token);
+          discovered.delete(token);
+          this.webSessions.put(token, draft);
           res.end('got it; thanks!');
+          return;
+        }
+
+        // Remove a calendar.
+        if (action === 'remove') {
+          let index = parseInt(formField(data, 'index'));
+          if (!isNaN(index)) {
+            (draft.sources || []).splice(index, 1);
+          }
+          libweb.redirect(res, req.url!);
+          return;
+        }
+
+        // Add a calendar.
+        let source: Source = {
+          label: formField(data, 'label').trim() ||
+            SERVICE_NAMES[service] || '',
+          availability: !!data['availability'],
+          service: service as Service,
+        };
+        if (service === 'caldav') {
+          // Find the calendars on the server. If there's more than one, ask
+          // which to use.
+          let login = {
+            url: formField(data, 'url'),
+            username: formField(data, 'username'),
+            password: formField(data, 'password'),
+          };
+          let calendars: caldav.CalendarInfo[];
+          try {
+            calendars = await caldav.discover(login.url, login.username,
+                                              login.password);
+          } catch (e) {
+            res.end(`sorry; I could not find your calendars (${e})`);
+            return;
+          }
+          if (!calendars.length) {
+            res.end('sorry; there are no calendars at that address');
+            return;
+          } else if (calendars.length > 1) {
+            discovered.set(token, { source: { ...source, caldav: login },
+                                    calendars });
+            nunjucks.render('calendars.html', { calendars },
+                            (err, rendered) => {
+              res.end(rendered);
+            });
+            return;
+          }
+          source.caldav = { ...login, calendars: [calendars[0].url] };
+        } else if (service === 'caldav-pick' &&
+                   discovered.has(token)) {
+          // The checkboxes give the indices of the chosen calendars.
+          let pending = discovered.get(token)!;
+          let picked = ([] as string[]).concat(data['calendar'] || [])
+            .map(i => pending.calendars[parseInt(i)])
+            .filter(c => c);
+          if (!picked.length) {
+            res.end('please go back and choose at least one calendar');
+            return;
+          }
+          discovered.delete(token);
+          source = pending.source;
+          source.caldav!.calendars = picked.map(c => c.url);
+        } else if (service === 'webcal') {
+          source.webcal = { url: formField(data, 'url') };
         } else {
           res.end('sorry; I did not understand the form');
+          return;
         }
+
+        this.addSource(token, source);
+        libweb.redirect(res, req.url!);
       } else {
         libweb.notFound(req, res);
       }
@@ -147,138 +753,932 @@ export class OpalBot {
   }
 
   /**
-   * Connect the bot to a Slack team.
+   * The web routes for users' published calendar feeds: one with their
+   * events and one with only the times they're busy.
+   */
+  feedRoutes() {
+    return [
+      new libweb.Route('/cal/:token.ics', async (req, res, params) => {
+        await this.sendFeed(res, params['token'], 'events');
+      }),
+      new libweb.Route('/freebusy/:token.ics', async (req, res, params) => {
+        await this.sendFeed(res, params['token'], 'busy');
+      }),
+    ];
+  }
+
+  /**
+   * Respond with the ICS for a kind of calendar feed with a given token. The
+   * `busy` feed has anonymous blocks of busy time instead of events.
+   */
+  async sendFeed(res: http.ServerResponse, token: string, kind: FeedKind) {
+    let busyOnly = kind === 'busy';
+    let user = token ?
+      this.users.findOne({ [FEED_TOKENS[kind]]: token }) : null;
+    let calendar = user && this.calendarFor(user, busyOnly);
+    if (!user || !calendar) {
+      res.statusCode = 404;
+      res.end('not found');
+      return;
+    }
+
+    let now = this.nowFor(user);
+    let start = now.clone().subtract(FEED_PAST_DAYS, 'days').startOf('day');
+    let end = now.clone().add(FEED_FUTURE_DAYS, 'days').startOf('day');
+    let events: Event[];
+    try {
+      events = await calendar.getEvents(start, end);
+    } catch (e) {
+      console.error(`error publishing calendar feed: ${e}`);
+      res.statusCode = 502;
+      res.end('could not get the calendar');
+      return;
+    }
+
+    let ics: string;
+    if (busyOnly) {
+      let blocks = freebusy.busy(events)
+        .map(({ start, end }) => ({ title: "Busy", start, end }));
+      ics = icsutil.feed("Busy", blocks);
+    } else {
+      ics = icsutil.feed("Calendar", events.map(publicEvent));
+    }
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.end(ics);
+  }
+
+  /**
+   * The web route for users' public booking pages, where anyone can pick a
+   * time to meet with them.
+   */
+  bookingRoute() {
+    nunjucks.configure(this.webdir);
+    return new libweb.Route('/book/:token', async (req, res, params) => {
+      let token = params['token'];
+      let user = token ? this.users.findOne({ bookingToken: token }) : null;
+      if (!user || !(user.settings.sources || []).some(isWritable)) {
+        res.statusCode = 404;
+        res.end('not found');
+        return;
+      }
+
+      // Show the open times, along with a message about the last request.
+      let render = async (ctx: { [k: string]: string }) => {
+        let slots: schedule.Slot[];
+        try {
+          slots = await this.bookableSlots(user!);
+        } catch (e) {
+          console.error(`error finding times to book: ${e}`);
+          res.statusCode = 502;
+          res.end('could not get the calendar');
+          return;
+        }
+        let fullCtx = { ...ctx, days: slotsByDay(slots),
+                        zone: this.zoneFor(user!) };
+        nunjucks.render('booking.html', fullCtx, (err, rendered) => {
+          res.end(rendered);
+        });
+      };
+
+      if (req.method === 'GET') {
+        await render({});
+      } else if (req.method === 'POST') {
+        let name: string;
+        let email: string;
+        let start: number;
+        try {
+          let data = await libweb.formdata(req);
+          name = formField(data, 'name').trim();
+          email = formField(data, 'email').trim();
+          start = parseInt(formField(data, 'slot'));
+        } catch (e) {
+          res.statusCode = 400;
+          res.end('bad request');
+          return;
+        }
+        if (!name || !isEmail(email) || isNaN(start)) {
+          await render({ error: "please choose a time and enter your name " +
+                         "and email address" });
+          return;
+        }
+
+        let slot: schedule.Slot | null;
+        try {
+          slot = await this.book(user, start, name, email);
+        } catch (e) {
+          console.error(`error booking a meeting: ${e}`);
+          await render({ error: "sorry, something went wrong; " +
+                         "please try again" });
+          return;
+        }
+        if (!slot) {
+          await render({ error: "sorry, that time is no longer open; " +
+                         "please choose another" });
+          return;
+        }
+
+        let when = schedule.formatSlot(slot);
+        await this.notify(user, `:calendar: ${name} (${email}) booked a ` +
+                          `meeting with you for ${when}`);
+        await render({ booked: `${when} (${this.zoneFor(user)})` });
+      } else {
+        libweb.notFound(req, res);
+      }
+    });
+  }
+
+  /**
+   * Get the times that visitors can book on a user's booking page: free
+   * times during working hours, except the ones already booked.
+   */
+  async bookableSlots(user: User): Promise<schedule.Slot[]> {
+    let calendar = this.calendarFor(user, true);
+    if (!calendar) {
+      return [];
+    }
+    let now = this.nowFor(user);
+    let end = now.clone().add(BOOKING_DAYS, 'days').endOf('day');
+    let events = await calendar.getEvents(now, end);
+    let length = moment.duration(BOOKING_MINUTES, 'minutes');
+    return schedule.freeSlots([events], now, end, length, now).filter(slot =>
+      !this.bookings.conflicts(user.$loki!, slot.start.valueOf(),
+                               slot.end.valueOf())
+    );
+  }
+
+  /**
+   * Book a meeting with a user that starts at a given time (as a Unix
+   * timestamp in milliseconds). Produces the meeting's slot, or null if
+   * the time isn't open.
+   *
+   * To keep two visitors from booking the same time, bookings for a user
+   * happen one at a time, and each one checks the calendar again (skipping
+   * the cache) before adding the event.
+   */
+  book(user: User, start: number, name: string,
+       email: string): Promise<schedule.Slot | null> {
+    return this.bookings.exclusive(user.$loki!, async () => {
+      this.invalidateCalendars(user);
+      let slots = await this.bookableSlots(user);
+      let slot = slots.find(s => s.start.valueOf() === start);
+      let calendar = this.calendarFor(user);
+      if (!slot || !calendar) {
+        return null;
+      }
+
+      await calendar.createEvent({
+        title: `Meeting with ${name}`,
+        start: slot.start,
+        end: slot.end,
+        description: `Booked by ${name} <${email}> on your booking page.`,
+      });
+      this.bookings.add({
+        user: user.$loki!,
+        start: slot.start.valueOf(),
+        end: slot.end.valueOf(),
+        name,
+        email,
+      });
+      return slot;
+    });
+  }
+
+  /**
+   * Add a calendar to the settings being edited in a web session, if it's
+   * still open.
+   */
+  addSource(token: string, source: Source) {
+    let draft = this.settingsDrafts.get(token);
+    if (draft) {
+      draft.sources = [...(draft.sources || []), source];
+    }
+  }
+
+  /**
+   * Connect the bot to a Slack team.
+   */
+  connectSlack(token: string, statusChan: string) {
+    let slack = new SlackBot(token);
+
+    // Handle Slack connection.
+    slack.on("ready", async () => {
+      console.log(`I'm ${slack.self.name} on ${slack.team.name}`);
+      let status_channel = slack.channel(statusChan);
+      if (status_channel) {
+        let commit = await gitSummary(__dirname);
+        slack.send(`:wave: @ ${commit}`, status_channel.id);
+      }
+    });
+
+    this.register(slack);
+    slack.start();
+  }
+
+  /**
+   * Run the bot in terminal (debugging) mode.
+   */
+  runTerminal() {
+    let term = new TerminalBot();
+    this.register(term);
+    term.run();
+  }
+
+  /**
+   * Add a server component to interact with Facebook Messenger. You still
+   * need to call `runWeb` to actually run the server.
+   */
+  addFacebook(token: string, verify: string) {
+    let fb = new FacebookBot(token, verify);
+    this.register(fb);
+    this.webRoutes.push(new libweb.Route('/fb', fb.handler()));
+  }
+
+  /**
+   * Add server component for directly interacting with the bot through
+   * a Web interface.
+   */
+  addWeb() {
+    let web = new WebBot();
+    this.register(web);
+    this.webRoutes.push(...web.routes());
+  }
+
+  /**
+   * Run Web server.
+   */
+  runWeb(port: number): Promise<void> {
+    let server = http.createServer(libweb.dispatch(this.webRoutes));
+    return new Promise<void>((resolve, reject) => {
+      server.listen(port, () => {
+        console.log(`web server running at ${this.webURL}`);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Add up the cache hits and misses for each user's calendars (since we
+   * connected to them), by user ID. Users whose calendars we haven't looked
+   * at are left out.
+   */
+  cacheStats(): Map<number, { hits: number, misses: number }> {
+    let stats = new Map<number, { hits: number, misses: number }>();
+    for (let user of this.users.find()) {
+      let hits = 0;
+      let misses = 0;
+      for (let source of user.settings.sources || []) {
+        let cached = this.calendarCaches.get(source);
+        if (cached) {
+          hits += cached.calendar.hits;
+          misses += cached.calendar.misses;
+        }
+      }
+      if (hits || misses) {
+        stats.set(user.$loki!, { hits, misses });
+      }
+    }
+    return stats;
+  }
+
+  /**
+   * Periodically log the calendar cache statistics.
+   */
+  runCacheStats() {
+    setInterval(() => {
+      let parts: string[] = [];
+      for (let [id, { hits, misses }] of this.cacheStats()) {
+        parts.push(`user ${id}: ${hits} hits, ${misses} misses`);
+      }
+      if (parts.length) {
+        console.log(`calendar cache: ${parts.join('; ')}`);
+      }
+    }, CACHE_STATS_INTERVAL);
+  }
+
+  /**
+   * Add support for getting calendars via the Office 365 API. 
+   */
+  addOffice(id: string, secret: string) {
+    let client = new office.Client(id, secret, this.webURL);
+    this.webRoutes.push(client.authRoute);
+    this.officeClient = client;
+  }
+
+  /**
+   * Register this bot's callbacks with a connection.
+   */
+  register(bot: Bot) {
+    this.bots.set(bot.namespace, bot);
+    bot.onconverse = async (text, conv) => {
+      await this.interact(text, conv);
+    };
+  }
+
+  /**
+   * Start a conversation with a chat account, if we're connected to its
+   * service.
+   */
+  async openConversation(namespace: string, id: string):
+    Promise<Conversation | null>
+  {
+    let bot = this.bots.get(namespace);
+    if (!bot) {
+      return null;
+    }
+    return await bot.open(id);
+  }
+
+  /**
+   * Start a conversation with a user on the first of their accounts whose
+   * service we're connected to. Return null if there is no way to reach
+   * them.
+   */
+  async converse(user: User): Promise<Conversation | null> {
+    for (let key of user.accounts) {
+      let [namespace, id] = parseAccountKey(key);
+      try {
+        let conv = await this.openConversation(namespace, id);
+        if (conv) {
+          return conv;
+        }
+      } catch (e) {
+        console.error(`could not reach ${key}: ${e}`);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Send a message to a user, wherever we can reach them. Return a flag
+   * indicating whether the message was sent.
+   */
+  async notify(user: User, text: string): Promise<boolean> {
+    let conv = await this.converse(user);
+    if (conv) {
+      conv.send(text);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Get a user from the database, or create it if it doesn't exist.
+   */
+  getUser(conv: Conversation): User {
+    return this.userByAccount(conv.namespace, conv.user);
+  }
+
+  /**
+   * Get a user from the database by one of their accounts, or create it if
+   * it doesn't exist.
+   */
+  userByAccount(namespace: string, id: string): User {
+    let key = accountKey(namespace, id);
+    let user = this.users.findOne({ accounts: { '$contains': key } }) as User;
+    if (user) {
+      return user;
+    } else {
+      let newUser = { accounts: [key], settings: {} };
+      this.users.insert(newUser);
+      this.db.saveDatabase();
+      return newUser;
+    }
+  }
+
+  /**
+   * Start linking another chat account to this user's. Produces a one-time
+   * code that the user can send to the bot from their other account.
+   */
+  linkCode(user: User): string {
+    let code = randomString().slice(0, 6);
+    this.linkCodes.set(code, user);
+    setTimeout(() => this.linkCodes.delete(code), LINK_CODE_TIMEOUT);
+    return code;
+  }
+
+  /**
+   * Finish linking accounts: move the conversation's account onto the user
+   * who generated the code. The linked user keeps their settings unless
+   * they have none. Return the combined user, or null if the code is
+   * invalid.
+   */
+  redeemLinkCode(conv: Conversation, code: string): User | null {
+    let target = this.linkCodes.get(code);
+    if (!target) {
+      return null;
+    }
+    this.linkCodes.delete(code);
+
+    let key = accountKey(conv.namespace, conv.user);
+    let current = this.getUser(conv);
+    if (current === target) {
+      return target;
+    }
+
+    // Detach the account from its old user, discarding that user if this was
+    // their only account.
+    if (!hasSources(target.settings) && hasSources(current.settings)) {
+      target.settings = current.settings;
+    }
+    current.accounts = current.accounts.filter(a => a !== key);
+    if (current.accounts.length) {
+      this.users.update(current);
+    } else {
+      this.users.remove(current);
+    }
+
+    target.accounts.push(key);
+    this.users.update(target);
+    this.db.saveDatabase();
+    return target;
+  }
+
+  /**
+   * Interact with the user to get their settings. We keep listening while
+   * the form is open, so the user can cancel (or walk away) as in any other
+   * conversation; then the form stops working.
+   */
+  async gatherSettings(conv: Conversation) {
+    let [url, settings, abandon] = this.settingsRequest(this.getUser(conv));
+    conv.send(`please fill out the form at ${url}`);
+    try {
+      while (true) {
+        let reply = conv.recv();
+        let submitted = await Promise.race([settings, reply.then(() => null)]);
+        if (submitted) {
+          // Stop listening for the reply we no longer need.
+          reply.catch(() => {});
+          conv.cancel();
+          return submitted;
+        }
+        conv.send(`please fill out the form at ${url} first ` +
+                  "(or say \"cancel\")");
+      }
+    } catch (e) {
+      abandon();
+      throw e;
+    }
+  }
+
+  /**
+   * Create a one-time settings form, starting from a user's current
+   * settings. Produces the form's URL, a promise for the settings the user
+   * submits, and a function to call to give up on the form.
+   */
+  settingsRequest(user: User): [string, Promise<Settings>, () => void] {
+    let token = randomString();
+    this.settingsDrafts.set(token,
+                            mapSecrets(user.settings, v => this.vault.open(v)));
+    let abandon = () => {
+      this.settingsDrafts.delete(token);
+      this.webSessions.delete(token);
+    };
+    return [`${this.webURL}/settings/${token}`, this.webSessions.get(token),
+            abandon];
+  }
+
+  /**
+   * Store new settings for a user.
+   */
+  saveSettings(user: User, settings: Settings) {
+    // Keep the user's time zone when they set up a different calendar.
+    settings = { ...settings,
+                 timezone: settings.timezone || user.settings.timezone };
+    user.settings = mapSecrets(settings, v => this.vault.seal(v));
+    this.users.update(user);
+    this.db.saveDatabase();
+
+    // Drop the cached copies of any CalDAV calendars the user removed.
+    let urls: string[] = [];
+    for (let source of settings.sources || []) {
+      if (source.caldav) {
+        urls.push(...(source.caldav.calendars || [source.caldav.url]));
+      }
+    }
+    new DavCache(this.db, user.$loki!).retain(urls);
+  }
+
+  /**
+   * Re-encrypt every user's secrets with our vault. `old` is the vault
+   * they are currently sealed with (or a keyless vault, for plaintext).
+   */
+  rekey(old: Vault): Promise<void> {
+    for (let user of this.users.find()) {
+      user.settings = mapSecrets(user.settings,
+                                 v => this.vault.seal(old.open(v)));
+      this.users.update(user);
+    }
+    return new Promise<void>((resolve, reject) => {
+      this.db.saveDatabase((err) => err ? reject(err) : resolve());
+    });
+  }
+
+  /**
+   * Ask someone else to set up their calendar. We message them directly if
+   * we can; their settings are saved whenever they get around to it. The
+   * settings link only goes to them, since whoever follows it can change
+   * their calendar. If we can't reach them, we ask them (in the current
+   * conversation) to message us instead.
+   */
+  async requestSettings(conv: Conversation, id: string) {
+    let user = this.userByAccount(conv.namespace, id);
+    let direct = await this.converse(user);
+    if (!direct) {
+      conv.send(`${mention(id)}: please send me a message to set up your ` +
+                `calendar`);
+      return;
+    }
+
+    let [url, settings] = this.settingsRequest(user);
+    direct.send(`${mention(conv.user)} wants to schedule a meeting ` +
+                `with you. please set up your calendar at ${url}`);
+    settings.then(s => this.saveSettings(user, s));
+  }
+
+  /**
+   * Get the user's configured Calendar. If `force` is enabled or the calendar
+   * hasn't been set up, interact with the user to set it up first.
+   */
+  async getCalendar(conv: Conversation, force=false): Promise<Calendar | null> {
+    let user = this.getUser(conv);
+
+    // Get the settings from the user and store them. Unless we're forcing it,
+    // skip this step if we already have a configured service (or a default
+    // calendar to fall back on).
+    if (force || (!hasSources(user.settings) && !this.defaultFor(user))) {
+      this.saveSettings(user, await this.gatherSettings(conv));
+      if (!user.settings.timezone) {
+        await this.askTimezone(conv, user);
+      }
+    }
+
+    return this.calendarFor(user);
+  }
+
+  /**
+   * Get a user's time zone. Until they tell us, assume they're in ours.
    */
-  connectSlack(token: string, statusChan: string) {
-    let slack = new SlackBot(token);
+  zoneFor(user: User): string {
+    return user.settings.timezone || moment.tz.guess();
+  }
 
-    // Handle Slack connection.
-    slack.on("ready", async () => {
-      console.log(`I'm ${slack.self.name} on ${slack.team.name}`);
-      let status_channel = slack.channel(statusChan);
-      if (status_channel) {
-        let commit = await gitSummary(__dirname);
-        slack.send(`:wave: @ ${commit}`, status_channel.id);
+  /**
+   * Get the current time in a user's time zone. Interpret anything the user
+   * says about dates and times relative to this.
+   */
+  nowFor(user: User): moment.Moment {
+    return moment.tz(this.zoneFor(user));
+  }
+
+  /**
+   * Ask the user which time zone they're in and save it.
+   */
+  async askTimezone(conv: Conversation, user: User) {
+    let suggested = this.zoneFor(user);
+    conv.send("what time zone are you in? (e.g., America/New_York, " +
+              `or say "ok" for ${suggested})`);
+    let zone: string | null = null;
+    while (!zone) {
+      let reply = await conv.recv();
+      if (isYes(reply)) {
+        zone = suggested;
+      } else if (!(zone = dates.parseTimezone(reply))) {
+        conv.send("sorry, I don't know that one; " +
+                  "try a city like \"Europe/London\"");
       }
-    });
+    }
+    this.setTimezone(user, zone);
+  }
 
-    this.register(slack);
-    slack.start();
+  /**
+   * Change a user's time zone. Their daily digest keeps arriving at the same
+   * time of day, now in the new zone.
+   */
+  setTimezone(user: User, zone: string) {
+    user.settings.timezone = zone;
+    this.users.update(user);
+    this.db.saveDatabase();
+
+    let digest = this.scheduler.get(digestKey(user));
+    if (digest) {
+      let due = dates.nextTimeOfDay(digest.data.hour, digest.data.minute,
+                                    this.nowFor(user));
+      this.scheduler.schedule(digest.key, digest.kind, due.valueOf(),
+                              digest.data);
+    }
   }
 
   /**
-   * Run the bot in terminal (debugging) mode.
+   * Get the calendar for a user, combining all the calendars they have
+   * connected. With `availability`, leave out the ones that don't count
+   * when we look for free time. Produces null if the user has no calendar.
    */
-  runTerminal() {
-    let term = new TerminalBot();
-    this.register(term);
-    term.run();
+  calendarFor(user: User, availability = false): Calendar | null {
+    if (!hasSources(user.settings)) {
+      return this.defaultFor(user);
+    }
+
+    // New events go on the first calendar we can change.
+    let calendars: Calendar[] = [];
+    let target: number | null = null;
+    for (let source of user.settings.sources!) {
+      if (availability && !source.availability) {
+        continue;
+      }
+      let cal = this.cachedCalendar(user, source);
+      if (cal) {
+        if (target === null && isWritable(source)) {
+          target = calendars.length;
+        }
+        calendars.push(cal);
+      }
+    }
+    return calendars.length === 1 ? calendars[0] :
+      new aggregate.Calendar(calendars, target || 0);
   }
 
   /**
-   * Add a server component to interact with Facebook Messenger. You still
-   * need to call `runWeb` to actually run the server.
+   * Remove the calendars we lost access to from a user's settings, so that
+   * they can link them again without the broken ones getting in the way.
    */
-  addFacebook(token: string, verify: string) {
-    let fb = new FacebookBot(token, verify);
-    this.register(fb);
-    this.webRoutes.push(new libweb.Route('/fb', fb.handler()));
+  dropExpired(user: User) {
+    let sources = user.settings.sources || [];
+    let kept = sources.filter(s => !this.expiredSources.has(s));
+    if (kept.length !== sources.length) {
+      user.settings.sources = kept;
+      this.users.update(user);
+      this.db.saveDatabase();
+    }
   }
 
   /**
-   * Add server component for directly interacting with the bot through
-   * a Web interface.
+   * Get the default calendar if it applies to a user: that is, if they use
+   * the bot from the terminal.
    */
-  addWeb() {
-    let web = new WebBot();
-    this.register(web);
-    this.webRoutes.push(...web.routes());
+  defaultFor(user: User): Calendar | null {
+    let terminal = user.accounts.some(key =>
+      parseAccountKey(key)[0] === 'terminal'
+    );
+    return terminal ? this.defaultCalendar : null;
   }
 
   /**
-   * Run Web server.
+   * Forget the events we have cached for a user, so the next look at their
+   * calendar goes to the server.
    */
-  runWeb(port: number): Promise<void> {
-    let server = http.createServer(libweb.dispatch(this.webRoutes));
-    return new Promise<void>((resolve, reject) => {
-      server.listen(port, () => {
-        console.log(`web server running at ${this.webURL}`);
-        resolve();
-      });
-    });
+  invalidateCalendars(user: User) {
+    for (let source of user.settings.sources || []) {
+      let cached = this.calendarCaches.get(source);
+      if (cached) {
+        cached.calendar.invalidate();
+      }
+    }
   }
 
   /**
-   * Add support for getting calendars via the Office 365 API. 
+   * Get the cached connection to one of a user's calendars, connecting if
+   * we haven't yet (or if the user has moved to another time zone).
    */
-  addOffice(id: string, secret: string) {
-    let client = new office.Client(id, secret, this.webURL);
-    this.webRoutes.push(client.authRoute);
-    this.officeClient = client;
+  cachedCalendar(user: User, source: Source): cache.Calendar | null {
+    let zone = this.zoneFor(user);
+    let cached = this.calendarCaches.get(source);
+    if (cached && cached.zone === zone) {
+      return cached.calendar;
+    }
+
+    let cal = this.sourceCalendar(user, source);
+    if (!cal) {
+      return null;
+    }
+    let calendar = new cache.Calendar(cal);
+    this.calendarCaches.set(source, { zone, calendar });
+    return calendar;
   }
 
   /**
-   * Register this bot's callbacks with a connection.
+   * Connect to one of a user's calendars.
    */
-  register(bot: Bot) {
-    bot.onconverse = async (text, conv) => {
-      await this.interact(text, conv);
-    };
+  sourceCalendar(user: User, source: Source): Calendar | null {
+    if (source.service === 'caldav') {
+      let cd = source.caldav!;
+      let password = this.vault.open(cd.password);
+      let cache = new DavCache(this.db, user.$loki!);
+      let calendars = (cd.calendars || [cd.url]).map(url =>
+        new caldav.Calendar(url, cd.username, password, this.zoneFor(user),
+                            cache)
+      );
+      return calendars.length === 1 ? calendars[0] :
+        new aggregate.Calendar(calendars);
+    } else if (source.service === 'webcal') {
+      return new webcal.Calendar(this.vault.open(source.webcal!.url),
+                                 this.zoneFor(user));
+    } else if (source.service === 'office') {
+      if (!this.officeClient) {
+        console.error("Office 365 is not configured");
+        return null;
+      }
+      let stored = this.vault.open(source.officeToken!);
+      let cal = new office.Calendar(this.officeClient.revive(stored),
+                                    this.zoneFor(user));
+
+      // Save the new token whenever it's refreshed.
+      cal.onrefresh = (token) => {
+        source.officeToken = this.vault.seal(token);
+        this.users.update(user);
+        this.db.saveDatabase();
+      };
+      cal.onexpire = () => this.expiredSources.add(source);
+      return cal;
+    }
+    return null;
   }
 
   /**
-   * Get a user from the database, or create it if it doesn't exist.
+   * Get the calendars for other people involved in a conversation (i.e.,
+   * users @-mentioned on Slack). Produces the participants whose calendars
+   * are set up and the IDs of the users who have not configured one.
    */
-  getUser(conv: Conversation): User {
-    let slack_id = conv.user;  // Currently assuming all users on Slack.
-    let user = this.users.findOne({ slack_id }) as User;
-    if (user) {
-      return user;
-    } else {
-      let newUser = { slack_id, settings: {} };
-      this.users.insert(newUser);
-      this.db.saveDatabase();
-      return newUser;
+  participantCalendars(conv: Conversation, text: string):
+    [Participant[], string[]]
+  {
+    if (conv.namespace !== 'slack') {
+      return [[], []];
     }
+
+    // Addressing the bot mentions it, too.
+    let slack = this.bots.get(conv.namespace);
+    let self = slack instanceof SlackBot && slack.self ? slack.self.id : null;
+
+    let participants: Participant[] = [];
+    let missing: string[] = [];
+    for (let id of mentions(text)) {
+      if (id === conv.user || id === self) {
+        continue;
+      }
+      let user = this.userByAccount(conv.namespace, id);
+      let calendar = this.calendarFor(user, true);
+      if (calendar) {
+        participants.push({ id, user, calendar });
+      } else {
+        missing.push(id);
+      }
+    }
+    return [participants, missing];
   }
 
   /**
-   * Interact with the user to get their settings.
+   * Send a user their agenda for the day. This is the scheduler job behind
+   * the daily digest; it produces the time of the next digest.
    */
-  async gatherSettings(conv: Conversation) {
-    let token = randomString();
-    conv.send(`please fill out the form at ${this.webURL}/settings/${token}`);
-    return await this.webSessions.get(token);
+  async sendDigest(job: Job): Promise<number | null> {
+    let user = this.users.get(job.data.user);
+    if (!user) {
+      return null;  // The user is gone.
+    }
+    let now = this.nowFor(user);
+    let next = dates.nextTimeOfDay(job.data.hour, job.data.minute, now)
+      .valueOf();
+
+    let calendar = this.calendarFor(user);
+    if (!calendar) {
+      return next;
+    }
+    let today = now.clone().startOf('day');
+    let agenda: string;
+    try {
+      agenda = await getSomeEvents(calendar,
+                                   [today, today.clone().add(1, 'day')],
+                                   this.zoneFor(user));
+    } catch (e) {
+      if (e === office.REAUTHORIZE) {
+        // Don't keep retrying until the user links the calendar again.
+        await this.notify(user, "I lost access to your Office 365 calendar; " +
+                          "ask me to set up your calendar again");
+        return next;
+      }
+      throw e;
+    }
+    await this.notify(user, `good morning! here's your day :sunny:\n${agenda}`);
+    return next;
   }
 
   /**
-   * Get the user's configured Calendar. If `force` is enabled or the calendar
-   * hasn't been set up, interact with the user to set it up first.
+   * Look for events coming up on a user's calendar and schedule reminders
+   * for the ones we haven't seen yet. This is a recurring scheduler job.
    */
-  async getCalendar(conv: Conversation, force=false): Promise<Calendar | null> {
-    let user = this.getUser(conv);
+  async pollReminders(job: Job): Promise<number | null> {
+    let user = this.users.get(job.data.user);
+    if (!user) {
+      return null;
+    }
+    let now = this.nowFor(user);
+    let next = now.valueOf() + REMINDER_POLL_INTERVAL;
+    this.reminders.expire(job.data.user);
 
-    // Get the settings from the user and store them. Unless we're forcing it,
-    // skip this step if we already have a configured service.
-    if (force || !user.settings.service) {
-      let settings = await this.gatherSettings(conv);
-      user.settings = settings;
-      this.users.update(user);
-      this.db.saveDatabase();
+    let calendar = this.calendarFor(user);
+    if (!calendar) {
+      return next;
+    }
+
+    // Look far enough ahead to catch every event whose reminder is due
+    // before we poll again.
+    let lead = moment.duration(job.data.minutes, 'minutes');
+    let horizon = now.clone().add(lead).add(REMINDER_POLL_INTERVAL, 'ms');
+    let events: Event[];
+    try {
+      events = await calendar.getEvents(now, horizon);
+    } catch (e) {
+      if (e === office.REAUTHORIZE) {
+        await this.notify(user, "I lost access to your Office 365 calendar, " +
+                          "so I turned off reminders; ask me to set up " +
+                          "your calendar again");
+        return null;
+      }
+      throw e;
     }
-    
-    // Get the calendar from the appropriate service.
-    if (user.settings.service === 'caldav') {
-      let cd = user.settings.caldav!;
-      return new caldav.Calendar(cd.url, cd.username, cd.password);
-    } else if (user.settings.service === 'office') {
-      let token = user.settings.officeToken!;
-      return new office.Calendar(token);
+
+    let current = new Set<string>();
+    for (let event of events) {
+      if (!event.start.isAfter(now)) {
+        continue;  // Already started.
+      }
+      // Holidays and the like don't need a reminder, and neither do events
+      // that don't take up the user's time.
+      if (freebusy.isAllDay(event) || event.availability === 'free') {
+        continue;
+      }
+      current.add(reminders.occurrenceKey(event));
+      let reminder = this.reminders.add(job.data.user, event);
+      if (reminder) {
+        let due = Math.max(event.start.clone().subtract(lead).valueOf(),
+                           now.valueOf());
+        this.scheduler.schedule(reminderKey(reminder), 'reminder', due,
+                                { user: reminder.user,
+                                  occurrence: reminder.occurrence });
+      }
+    }
+
+    // Drop the reminders for events that were moved or deleted. (A moved
+    // event shows up above as a new occurrence.)
+    let gone = this.reminders.starting(job.data.user, now.valueOf(),
+                                       horizon.valueOf())
+      .filter(r => !current.has(r.occurrence));
+    for (let reminder of gone) {
+      this.scheduler.cancel(reminderKey(reminder));
+    }
+    this.reminders.remove(gone);
+    return next;
+  }
+
+  /**
+   * Send a single reminder about an upcoming event. This is a one-shot
+   * scheduler job.
+   */
+  async sendReminder(job: Job): Promise<number | null> {
+    let reminder = this.reminders.get(job.data.user, job.data.occurrence);
+    let user = this.users.get(job.data.user);
+    if (!reminder || reminder.muted || !user) {
+      return null;
     }
 
+    await this.notify(user, reminders.formatReminder(reminder,
+                                                     this.zoneFor(user)) +
+                      '\n(reply "snooze" or "mute")');
+    reminder.sent = Date.now();
+    this.reminders.update(reminder);
     return null;
   }
 
+  /**
+   * Act on a reply to a reminder we sent recently. Return a flag indicating
+   * whether the message was such a reply.
+   */
+  reminderReply(conv: Conversation, text: string): boolean {
+    let reply = reminders.parseReply(text);
+    if (!reply) {
+      return false;
+    }
+    let user = this.getUser(conv);
+    let reminder = this.reminders.latest(user.$loki!);
+    if (!reminder) {
+      return false;
+    }
+
+    if (reply.action === 'snooze') {
+      let due = this.nowFor(user).add(reply.duration);
+      this.scheduler.schedule(reminderKey(reminder), 'reminder', due.valueOf(),
+                              { user: reminder.user,
+                                occurrence: reminder.occurrence });
+      conv.send(`ok, I'll remind you again at ${due.format('h:mm a')} :zzz:`);
+    } else {
+      reminder.muted = true;
+      this.reminders.update(reminder);
+      this.scheduler.cancel(reminderKey(reminder));
+      conv.send(`ok, no more reminders about "${reminder.title}" :mute:`);
+    }
+    return true;
+  }
+
   /**
    * Conversation with a greeting intent.
    */
@@ -303,20 +1703,125 @@ export class OpalBot {
   /**
    * Conversation where the user wants to see their calendar.
    */
-  async handle_show_calendar(conv: Conversation) {
+  async handle_show_calendar(conv: Conversation, res: nlu.Result) {
     conv.send("let's get your calendar!");
     let calendar = await this.getCalendar(conv);
-    if (calendar) {
-      conv.send(await getSomeEvents(calendar));
+    if (!calendar) {
+      return;
     }
+
+    // Show the requested range, or the next week by default.
+    let user = this.getUser(conv);
+    let now = this.nowFor(user);
+    let range = dates.findRange(res, now) ||
+      [now, now.clone().add(7, 'days')];
+    conv.send(await getSomeEvents(calendar, range, this.zoneFor(user)));
   }
 
   /**
    * Conversation where the user wants to schedule a meeting.
    */
-  async handle_schedule_meeting(conv: Conversation) {
-    conv.send("let's get to schedulin'! " +
-              "[actually this is not quite implemented yet]");
+  async handle_schedule_meeting(conv: Conversation, res: nlu.Result) {
+    let text = res.text;
+    conv.send("let's get to schedulin'!");
+    let calendar = await this.getCalendar(conv);
+    if (!calendar) {
+      return;
+    }
+
+    // Find anyone else who should be there.
+    let [others, missing] = this.participantCalendars(conv, text);
+    if (missing.length) {
+      let names = missing.map(mention).join(', ');
+      conv.send(`${names} ${missing.length > 1 ? "haven't" : "hasn't"} ` +
+                "set up a calendar yet, so I'll leave them out. " +
+                "want me to send them a link to set one up?");
+      if (isYes(await conv.recv())) {
+        for (let id of missing) {
+          await this.requestSettings(conv, id);
+        }
+      }
+    }
+
+    // Find out how long the meeting should be, asking if the request didn't
+    // say. Slack's markup for mentions and links might look like times, so
+    // we ignore it.
+    let plain = text.replace(/<[^>]*>/g, '');
+    let length = schedule.parseDuration(plain);
+    if (!length) {
+      conv.send("how long is the meeting?");
+      while (!(length = schedule.parseDuration(await conv.recv()))) {
+        conv.send("sorry, I didn't get that; " +
+                  "try something like \"30 minutes\"");
+      }
+    }
+
+    // Likewise for when it should happen.
+    let now = this.nowFor(this.getUser(conv));
+    let window = dates.findRange({ ...res, text: plain }, now);
+    if (!window) {
+      conv.send("when? (e.g., tomorrow, friday, or next week)");
+      while (!(window = dates.parseRange(await conv.recv(), now))) {
+        conv.send("sorry, I didn't get that; " +
+                  "try something like \"this week\"");
+      }
+    }
+    let [start, end] = window;
+
+    // Look for times when everyone is free, ignoring the calendars the user
+    // doesn't count against their availability.
+    let mine = this.calendarFor(this.getUser(conv), true) || calendar;
+    let eventLists = [await mine.getEvents(start, end)];
+    for (let other of others) {
+      try {
+        eventLists.push(await other.calendar.getEvents(start, end));
+      } catch (e) {
+        if (e !== office.REAUTHORIZE) {
+          throw e;
+        }
+        // Someone else's calendar expiring is for them to fix, not the
+        // person scheduling the meeting.
+        conv.send(`I can't see ${mention(other.id)}'s calendar right now, ` +
+                  "so I'll leave them out");
+        await this.notify(other.user, "I lost access to your Office 365 " +
+                          "calendar; ask me to set up your calendar again");
+      }
+    }
+    let slots = schedule.pickSlots(
+      schedule.freeSlots(eventLists, start, end, length, now),
+      PROPOSED_SLOTS,
+    );
+    if (!slots.length) {
+      conv.send("sorry, I couldn't find any free time then :cry:");
+      return;
+    }
+
+    // Let the user choose one.
+    let options = slots.map((slot, i) =>
+      `${i + 1}. ${schedule.formatSlot(slot)}`
+    );
+    conv.send("how about one of these?\n" + options.join('\n'));
+    let slot: schedule.Slot | null = null;
+    while (!slot) {
+      let reply = (await conv.recv()).trim().toLowerCase();
+      if (reply === 'none' || reply === 'no') {
+        conv.send("ok, never mind then");
+        return;
+      }
+      let choice = parseInt(reply);
+      if (choice >= 1 && choice <= slots.length) {
+        slot = slots[choice - 1];
+      } else {
+        conv.send(`pick a number from 1 to ${slots.length} (or say "none")`);
+      }
+    }
+
+    // Name and create the event.
+    conv.send("what should I call it?");
+    let title = (await conv.recv()).trim() || "meeting";
+    await calendar.createEvent({ title, start: slot.start, end: slot.end });
+    conv.send(`ok, "${title}" is on your calendar for ` +
+              `${schedule.formatSlot(slot)} :calendar:`);
   }
 
   /**
@@ -327,11 +1832,261 @@ export class OpalBot {
     conv.send("ok, all set!");
   }
 
+  /**
+   * Conversation where the user wants to use the same settings from another
+   * chat service. They either ask for a code or send one they got earlier.
+   */
+  async handle_link_account(conv: Conversation, res: nlu.Result) {
+    // Linking a shared account would hand someone's settings to everyone
+    // else using it.
+    if (SHARED_NAMESPACES.indexOf(conv.namespace) !== -1) {
+      conv.send("sorry, I can't link accounts from here; everyone here " +
+                "shares the same account");
+      return;
+    }
+
+    let match = res.text.match(/\blink\s+([0-9a-f]{6})\b/i);
+    if (match) {
+      let user = this.redeemLinkCode(conv, match[1].toLowerCase());
+      if (user) {
+        conv.send("linked! :link: your accounts now share settings");
+      } else {
+        conv.send("sorry, that code isn't valid; ask me for a new one");
+      }
+    } else {
+      let code = this.linkCode(this.getUser(conv));
+      conv.send(`from your other account, send me "link ${code}" ` +
+                "within 10 minutes");
+    }
+  }
+
+  /**
+   * Conversation where the user wants to turn the daily digest on or off or
+   * change when it arrives.
+   */
+  async handle_digest(conv: Conversation, res: nlu.Result) {
+    let user = this.getUser(conv);
+    let key = digestKey(user);
+
+    if (/\b(stop|off|disable|unsubscribe|no more|don't)\b/i.test(res.text)) {
+      if (this.scheduler.cancel(key)) {
+        conv.send("ok, no more daily digests");
+      } else {
+        conv.send("you aren't getting a daily digest");
+      }
+      return;
+    }
+
+    if (!await this.getCalendar(conv)) {
+      return;
+    }
+
+    // Find out when to send it, suggesting the time they already have (if
+    // any) or the default.
+    let time = dates.parseTimeOfDay(res.text);
+    if (!time) {
+      let job = this.scheduler.get(key);
+      let suggested: [number, number] = job ?
+        [job.data.hour, job.data.minute] : DEFAULT_DIGEST_TIME;
+      conv.send("what time should I send it? (say \"ok\" for " +
+                `${dates.formatTimeOfDay(suggested[0], suggested[1])})`);
+      while (!time) {
+        let reply = await conv.recv();
+        if (isYes(reply)) {
+          time = suggested;
+        } else if (!(time = dates.parseTimeOfDay(reply))) {
+          conv.send("sorry, I didn't get that; try something like \"8am\"");
+        }
+      }
+    }
+
+    let [hour, minute] = time;
+    let due = dates.nextTimeOfDay(hour, minute, this.nowFor(user)).valueOf();
+    this.scheduler.schedule(key, 'digest', due,
+                            { user: user.$loki, hour, minute });
+    conv.send("ok, I'll send you your agenda every day at " +
+              `${dates.formatTimeOfDay(hour, minute)} :sunrise:`);
+  }
+
+  /**
+   * Conversation where the user wants a public page where other people can
+   * book meetings with them, or wants to take it down.
+   */
+  async handle_booking_page(conv: Conversation, res: nlu.Result) {
+    let user = this.getUser(conv);
+
+    if (/\b(stop|remove|delete|off|disable|don't|take down)\b/i
+        .test(res.text)) {
+      if (user.bookingToken) {
+        delete user.bookingToken;
+        this.users.update(user);
+        this.db.saveDatabase();
+        conv.send("ok, I took down your booking page");
+      } else {
+        conv.send("you don't have a booking page");
+      }
+      return;
+    }
+
+    if (!await this.getCalendar(conv) || !hasSources(user.settings)) {
+      conv.send("you'll need to set up your calendar first");
+      return;
+    }
+    if (!user.settings.sources!.some(isWritable)) {
+      conv.send("your calendars are all read-only subscriptions, so I " +
+                "couldn't add bookings to them; connect one I can change " +
+                "first");
+      return;
+    }
+
+    let fresh = /\b(new|reset|regenerate|change)\b/i.test(res.text);
+    if (!user.bookingToken || fresh) {
+      user.bookingToken = randomString(TOKEN_LENGTH);
+      this.users.update(user);
+      this.db.saveDatabase();
+    }
+    conv.send(`here's your booking page: ${this.webURL}/book/` +
+              `${user.bookingToken}\nanyone with the link can book ` +
+              `${BOOKING_MINUTES} minutes when you're free in the next ` +
+              `${BOOKING_DAYS} days, and I'll let you know when they do ` +
+              ":tada:");
+  }
+
+  /**
+   * Conversation where the user wants to publish their calendar as a feed
+   * that other apps can subscribe to, get a new link, or stop sharing. They
+   * can ask for just the events feed or just the free/busy one; otherwise,
+   * we do the same for both.
+   */
+  async handle_share_calendar(conv: Conversation, res: nlu.Result) {
+    let user = this.getUser(conv);
+    let kinds: FeedKind[] = ['events', 'busy'];
+    if (/\bfree ?\/? ?busy\b|\bbusy\b/i.test(res.text)) {
+      kinds = ['busy'];
+    } else if (/\b(events|full)\b/i.test(res.text)) {
+      kinds = ['events'];
+    }
+    let shared = kinds.filter(kind => user[FEED_TOKENS[kind]]);
+
+    if (/\b(stop|revoke|unshare|unpublish|off|disable|don't)\b/i
+        .test(res.text)) {
+      if (shared.length) {
+        for (let kind of shared) {
+          delete user[FEED_TOKENS[kind]];
+        }
+        this.users.update(user);
+        this.db.saveDatabase();
+        conv.send("ok, I stopped sharing; the old links won't work anymore");
+      } else {
+        conv.send("you aren't sharing that");
+      }
+      return;
+    }
+
+    if (!await this.getCalendar(conv)) {
+      return;
+    }
+
+    // Make tokens where there aren't any, or new ones if they ask.
+    let fresh = /\b(new|reset|regenerate|change)\b/i.test(res.text);
+    if (fresh || shared.length < kinds.length) {
+      for (let kind of kinds) {
+        if (fresh || !user[FEED_TOKENS[kind]]) {
+          user[FEED_TOKENS[kind]] = randomString(TOKEN_LENGTH);
+        }
+      }
+      this.users.update(user);
+      this.db.saveDatabase();
+    }
+
+    let links: string[] = [];
+    if (user.eventsToken && kinds.indexOf('events') !== -1) {
+      links.push(`your events: ${this.webURL}/cal/${user.eventsToken}.ics`);
+    }
+    if (user.busyToken && kinds.indexOf('busy') !== -1) {
+      links.push(`just when you're busy: ` +
+                 `${this.webURL}/freebusy/${user.busyToken}.ics`);
+    }
+    conv.send("subscribe in any calendar app :link:\n" +
+              links.join('\n') + "\n" +
+              "anyone with a link can see what it shows, so say " +
+              "\"unshare my calendar\" to turn them off or \"new calendar " +
+              "links\" to replace them (add \"free/busy\" or \"events\" " +
+              "to change just one)");
+  }
+
+  /**
+   * Conversation where the user wants to turn event reminders on or off or
+   * change how early they arrive.
+   */
+  async handle_reminders(conv: Conversation, res: nlu.Result) {
+    let user = this.getUser(conv);
+    let key = remindersKey(user);
+
+    if (/\b(stop|off|disable|no more|don't)\b/i.test(res.text)) {
+      // Also cancel the reminders we've already scheduled.
+      for (let reminder of this.reminders.clear(user.$loki!)) {
+        this.scheduler.cancel(reminderKey(reminder));
+      }
+      if (this.scheduler.cancel(key)) {
+        conv.send("ok, no more reminders");
+      } else {
+        conv.send("you aren't getting reminders");
+      }
+      return;
+    }
+
+    if (!await this.getCalendar(conv)) {
+      return;
+    }
+
+    // Find out how early to send them.
+    let lead = schedule.parseDuration(res.text);
+    if (!lead) {
+      conv.send("how long before each event should I remind you? " +
+                `(say "ok" for ${DEFAULT_REMINDER_MINUTES} minutes)`);
+      while (!lead) {
+        let reply = await conv.recv();
+        if (isYes(reply)) {
+          lead = moment.duration(DEFAULT_REMINDER_MINUTES, 'minutes');
+        } else if (!(lead = schedule.parseDuration(reply))) {
+          conv.send("sorry, I didn't get that; " +
+                    "try something like \"15 minutes\"");
+        }
+      }
+    }
+
+    let minutes = Math.round(lead.asMinutes());
+    this.scheduler.schedule(key, 'reminders', Date.now(),
+                            { user: user.$loki, minutes });
+    conv.send(`ok, I'll remind you ${minutes} minutes before each event ` +
+              ":alarm_clock:");
+  }
+
+  /**
+   * Conversation where the user wants to change their time zone.
+   */
+  async handle_timezone(conv: Conversation, res: nlu.Result) {
+    let user = this.getUser(conv);
+    let zone = dates.parseTimezone(res.text);
+    if (zone) {
+      this.setTimezone(user, zone);
+    } else {
+      await this.askTimezone(conv, user);
+    }
+    conv.send(`ok, you're in ${this.zoneFor(user)}, where it's ` +
+              `${this.nowFor(user).format('h:mm a')} :clock3:`);
+  }
+
   /**
    * Conversation where the user asks for help using the bot.
    */
   async handle_help(conv: Conversation) {
-    conv.send("I can schedule a meeting or show your calendar");
+    conv.send("I can schedule a meeting or show your calendar. " +
+              "I can also send you a daily digest of your agenda, remind " +
+              "you about upcoming events, share your calendar as a feed, " +
+              "give you a page where people can book time with you, or " +
+              "link your accounts on different chat services.");
   }
 
   /**
@@ -342,31 +2097,54 @@ export class OpalBot {
   }
 
   /**
-   * Handle a new conversation by dispatching based on intent.
+   * Handle a new conversation by dispatching to the registered handlers.
    */
   async interact(text: string, conv: Conversation) {
-    let res = await this.wit.message(text, {});
-    console.log(`Wit parse: ${util.inspect(res, { depth: undefined })}`);
-
-    let unhandled = false;
-    if (wit.getEntity(res, "greetings")) {
-      await this.handle_greeting(conv);
-    } else if (wit.getEntity(res, "bye")) {
-      await this.handle_bye(conv);
-    } else if (wit.getEntity(res, "thanks")) {
-      await this.handle_thanks(conv);
-    } else {
-      let intent = wit.entityValue(res, "intent");
-      if (intent === "show_calendar") {
-        await this.handle_show_calendar(conv);
-      } else if (intent === "schedule_meeting") {
-        await this.handle_schedule_meeting(conv);
-      } else if (intent === "setup_calendar") {
-        await this.handle_setup_calendar(conv);
-      } else if (intent === "help") {
-        await this.handle_help(conv);
+    if (isCancel(text)) {
+      conv.send("nothing to cancel :ok_hand:");
+      return;
+    }
+    if (this.reminderReply(conv, text)) {
+      return;
+    }
+
+    let user = this.getUser(conv);
+    let res = await this.nlu.parse(text, {
+      zone: this.zoneFor(user),
+      now: this.nowFor(user),
+    });
+    console.log(`NLU parse: ${util.inspect(res, { depth: undefined })}`);
+
+    let gconv = guarded(conv);
+    try {
+      try {
+        await this.handlers.dispatch(gconv, res);
+      } catch (e) {
+        // Only the user's own calendars are theirs to link again.
+        let expired = e === office.REAUTHORIZE &&
+          (user.settings.sources || []).some(s => this.expiredSources.has(s));
+        if (!expired) {
+          throw e;
+        }
+        // Linking the calendar again is itself a conversation, which the
+        // user can cancel or walk away from like any other.
+        conv.send("I lost access to your Office 365 calendar; " +
+                  "please link it again");
+        this.dropExpired(user);
+        await this.getCalendar(gconv, true);
+        conv.send("ok, all set! try that again?");
+      }
+    } catch (e) {
+      if (e === CANCELLED) {
+        conv.send("ok, never mind");
+      } else if (e === TIMEOUT) {
+        conv.send("I stopped waiting for an answer; " +
+                  "just ask again when you're ready");
+      } else if (e === webcal.READ_ONLY) {
+        conv.send("sorry, your calendar is a read-only subscription, " +
+                  "so I can't change it");
       } else {
-        await this.handle_default(conv);
+        throw e;
       }
     }
   }
@@ -0,0 +1,218 @@
+/**
+ * Reminders about upcoming events. We keep a log of the event occurrences
+ * we know about so that each one gets a single reminder (unless the user
+ * snoozes it) and so that users can mute the ones they don't care about.
+ */
+
+import * as moment from 'moment-timezone';
+import { Event } from '../multical/calbase';
+import { parseDuration } from './schedule';
+
+/**
+ * How long to snooze a reminder when the user doesn't say.
+ */
+const DEFAULT_SNOOZE = moment.duration(5, 'minutes');
+
+/**
+ * How long after sending a reminder we still treat "snooze" or "mute" as a
+ * reply to it (in milliseconds).
+ */
+const REPLY_WINDOW = 30 * 60 * 1000;
+
+/**
+ * An event occurrence that we'll remind (or have reminded) a user about.
+ */
+export interface Reminder {
+  /**
+   * The database ID of the user to remind.
+   */
+  user: number;
+
+  /**
+   * Identifies the event occurrence; see `occurrenceKey`.
+   */
+  occurrence: string;
+
+  title: string;
+  location?: string;
+
+  /**
+   * The event's start and end, as Unix timestamps in milliseconds.
+   */
+  start: number;
+  end: number;
+
+  /**
+   * When we last sent the reminder, or null if we haven't yet.
+   */
+  sent: number | null;
+
+  /**
+   * Whether the user asked us to stop reminding them about this event.
+   */
+  muted: boolean;
+}
+
+/**
+ * Something the user can say in reply to a reminder.
+ */
+export type Reply =
+  { action: 'snooze', duration: moment.Duration } |
+  { action: 'mute' };
+
+/**
+ * Identify a single occurrence of an event. Recurring events share an ID,
+ * so we distinguish occurrences by their start time.
+ */
+export function occurrenceKey(event: Event) {
+  return `${event.id || event.title}@${event.start.valueOf()}`;
+}
+
+/**
+ * Describe an upcoming event for a reminder message, with its time in a
+ * given zone.
+ */
+export function formatReminder(reminder: Reminder, zone: string,
+                               now = moment()) {
+  let start = moment.tz(reminder.start, zone);
+  let out = `:alarm_clock: "${reminder.title}" starts at ` +
+    `${start.format('h:mm a')} (${start.from(now)})`;
+  if (reminder.location) {
+    out += ` in ${reminder.location}`;
+  }
+  return out;
+}
+
+/**
+ * Understand a reply to a reminder, like "snooze", "snooze 10 minutes", or
+ * "mute". Return null if the message isn't one.
+ */
+export function parseReply(text: string): Reply | null {
+  let match = text.match(/^\s*snooze\b(.*)$/i);
+  if (match) {
+    let duration = parseDuration(match[1]) || DEFAULT_SNOOZE;
+    return { action: 'snooze', duration };
+  }
+  if (/^\s*(mute|silence)\b/i.test(text)) {
+    return { action: 'mute' };
+  }
+  return null;
+}
+
+/**
+ * The database of reminders.
+ */
+export class ReminderLog {
+  public reminders: LokiCollection<Reminder>;
+
+  constructor(
+    public db: Loki,
+  ) {
+    this.reminders = (db.getCollection("reminders") ||
+      db.addCollection("reminders")) as LokiCollection<Reminder>;
+  }
+
+  /**
+   * Look up a reminder for an event occurrence.
+   */
+  get(user: number, occurrence: string): Reminder | null {
+    return this.reminders.findOne({ user, occurrence }) || null;
+  }
+
+  /**
+   * Start keeping track of an event occurrence. Produces the new reminder,
+   * or null if we already knew about the occurrence.
+   */
+  add(user: number, event: Event): Reminder | null {
+    let occurrence = occurrenceKey(event);
+    if (this.get(user, occurrence)) {
+      return null;
+    }
+    let reminder: Reminder = {
+      user,
+      occurrence,
+      title: event.title,
+      location: event.location,
+      start: event.start.valueOf(),
+      end: event.end.valueOf(),
+      sent: null,
+      muted: false,
+    };
+    this.reminders.insert(reminder);
+    this.db.saveDatabase();
+    return reminder;
+  }
+
+  /**
+   * Get a user's reminders for events that start in a range of time (given
+   * as Unix timestamps in milliseconds).
+   */
+  starting(user: number, start: number, end: number): Reminder[] {
+    return this.reminders.chain().find({
+      '$and': [
+        { user },
+        { start: { '$gt': start } },
+        { start: { '$lte': end } },
+      ],
+    }).data();
+  }
+
+  /**
+   * Stop keeping track of some event occurrences.
+   */
+  remove(reminders: Reminder[]) {
+    for (let reminder of reminders) {
+      this.reminders.remove(reminder);
+    }
+    if (reminders.length) {
+      this.db.saveDatabase();
+    }
+  }
+
+  /**
+   * Forget all of a user's reminders. Produces the ones we forgot.
+   */
+  clear(user: number): Reminder[] {
+    let all = this.reminders.chain().find({ user }).data();
+    this.remove(all);
+    return all;
+  }
+
+  /**
+   * Save changes to a reminder.
+   */
+  update(reminder: Reminder) {
+    this.reminders.update(reminder);
+    this.db.saveDatabase();
+  }
+
+  /**
+   * Get the reminder that a user's message might be replying to: the one we
+   * sent most recently, if that was not too long ago.
+   */
+  latest(user: number, now = Date.now()): Reminder | null {
+    let recent = this.reminders.chain().find({ user }).data();
+    let best: Reminder | null = null;
+    for (let reminder of recent) {
+      if (reminder.sent !== null && reminder.sent > now - REPLY_WINDOW &&
+          reminder.end > now && (!best || reminder.sent > best.sent!)) {
+        best = reminder;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Forget about a user's events that are over.
+   */
+  expire(user: number, now = Date.now()) {
+    let old = this.reminders.chain().find({ user, end: { '$lt': now } })
+      .data();
+    for (let reminder of old) {
+      this.reminders.remove(reminder);
+    }
+    if (old.length) {
+      this.db.saveDatabase();
+    }
+  }
+}
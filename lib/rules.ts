@@ -0,0 +1,123 @@
+/**
+ * An offline NLU backend that recognizes messages with regular expressions.
+ * It understands much less than Wit, but it needs no network access or API
+ * token.
+ */
+
+import * as nlu from './nlu';
+
+/**
+ * A pattern that, when it matches a message, indicates an intent or entity.
+ */
+export interface Rule {
+  /**
+   * The entity name to produce, or `intent` for an intent.
+   */
+  name: string;
+
+  /**
+   * The value to produce.
+   */
+  value: string;
+
+  /**
+   * The pattern to look for in the message.
+   */
+  pattern: RegExp;
+
+  /**
+   * The confidence to report when the pattern matches.
+   */
+  confidence: number;
+}
+
+/**
+ * The rules that mirror the intents and entities in our Wit app.
+ */
+export const DEFAULT_RULES: Rule[] = [
+  {
+    name: 'greetings', value: 'true', confidence: 0.9,
+    pattern: /^\s*(hi|hello|hey|howdy|yo|good (morning|afternoon|evening))\b/i,
+  },
+  {
+    name: 'bye', value: 'true', confidence: 0.9,
+    pattern: /^\s*(bye|goodbye|see (you|ya)|later|good night)\b/i,
+  },
+  {
+    name: 'thanks', value: 'true', confidence: 0.9,
+    pattern: /\b(thanks|thank you|thx|ty)\b/i,
+  },
+  {
+    name: 'intent', value: 'booking_page', confidence: 0.9,
+    pattern: /\bbooking (page|link)s?\b|\bbook (time )?with me\b/i,
+  },
+  {
+    name: 'intent', value: 'share_calendar', confidence: 0.9,
+    pattern: /\b(un)?(share|sharing|publish)\b|\b(calendar|ics|free\/?busy) (feed|link|url)s?\b/i,
+  },
+  {
+    name: 'intent', value: 'setup_calendar', confidence: 0.9,
+    pattern: /\b(set ?up|connect|link|configure|change) (my |a |the )?calendars?\b/i,
+  },
+  {
+    name: 'intent', value: 'schedule_meeting', confidence: 0.8,
+    pattern: /\b(schedule|book|set up|arrange) (a |an |some )?(meeting|call|chat|time|\d+)|\bfind (some |a )?(time|\d+)|\bmeet with\b/i,
+  },
+  {
+    name: 'intent', value: 'digest', confidence: 0.9,
+    pattern: /\b(digest|daily (agenda|summary|briefing)|every (morning|day))\b/i,
+  },
+  {
+    name: 'intent', value: 'reminders', confidence: 0.9,
+    pattern: /\breminders?\b|\bremind me\b/i,
+  },
+  {
+    name: 'intent', value: 'timezone', confidence: 0.9,
+    pattern: /\btime ?zones?\b/i,
+  },
+  {
+    name: 'intent', value: 'show_calendar', confidence: 0.8,
+    pattern: /\b(calendar|agenda|my schedule)\b|\bwhat do i have\b|\bam i (free|busy)\b/i,
+  },
+  {
+    name: 'intent', value: 'link_account', confidence: 0.9,
+    pattern: /\blink\b.*\baccounts?\b|^\s*link\s+[0-9a-f]{6}\s*$/i,
+  },
+  {
+    name: 'intent', value: 'help', confidence: 0.9,
+    pattern: /\bhelp\b|\bwhat can you do\b/i,
+  },
+];
+
+/**
+ * Understand messages by matching them against a list of rules.
+ */
+export class RuleNLU implements nlu.NLU {
+  constructor(
+    public rules = DEFAULT_RULES,
+  ) {}
+
+  async parse(text: string): Promise<nlu.Result> {
+    let result: nlu.Result = { text, intents: [], entities: {} };
+    for (let rule of this.rules) {
+      if (!rule.pattern.test(text)) {
+        continue;
+      }
+
+      let entity = { value: rule.value, confidence: rule.confidence };
+      if (rule.name === 'intent') {
+        result.intents.push(entity);
+      } else {
+        result.entities[rule.name] = result.entities[rule.name] || [];
+        result.entities[rule.name].push(entity);
+      }
+    }
+
+    // Order by confidence. Ties go to the earlier rule.
+    nlu.byConfidence(result.intents);
+    for (let name in result.entities) {
+      nlu.byConfidence(result.entities[name]);
+    }
+    return result;
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Finding times for new meetings.
+ */
+
+import * as moment from 'moment';
+import { Event } from '../multical/calbase';
+import * as freebusy from '../multical/freebusy';
+
+/**
+ * A candidate time for a meeting.
+ */
+export type Slot = freebusy.Interval;
+
+/**
+ * Parse a meeting length like "30 minutes", "1.5 hours", or "an hour" from
+ * free text. Return null if we can't find one.
+ */
+export function parseDuration(text: string): moment.Duration | null {
+  let s = text.toLowerCase();
+  if (/\bhalf an? hour\b/.test(s)) {
+    return moment.duration(30, 'minutes');
+  }
+  if (/\ban? hour\b/.test(s)) {
+    return moment.duration(1, 'hour');
+  }
+
+  let match = s.match(/(\d+(?:\.\d+)?)\s*(m|mins?|minutes?|h|hrs?|hours?)\b/);
+  if (!match) {
+    return null;
+  }
+  let amount = parseFloat(match[1]);
+  let dur = match[2].startsWith('h') ?
+    moment.duration(amount, 'hours') :
+    moment.duration(amount, 'minutes');
+  return dur.asMinutes() > 0 ? dur : null;
+}
+
+/**
+ * Find all the slots of a given length during working hours in a range of
+ * time when everyone is free. Each element of `eventLists` holds one
+ * person's events. Slots in the past are never offered.
+ */
+export function freeSlots(eventLists: Event[][], start: moment.Moment,
+                          end: moment.Moment, length: moment.Duration,
+                          now = moment()): Slot[] {
+  let from = moment.max(start, now);
+  let free: freebusy.Interval[] | null = null;
+  for (let events of eventLists) {
+    let mine = freebusy.free(events, from, end, { minLength: length });
+    free = free ? freebusy.intersect(free, mine) : mine;
+  }
+  return freebusy.slots(free || [], length);
+}
+
+/**
+ * Choose a few slots to propose from a list of available slots. We spread
+ * the choices evenly through the list so the user gets some variety.
+ */
+export function pickSlots(slots: Slot[], count: number): Slot[] {
+  if (slots.length <= count) {
+    return slots;
+  }
+  let out: Slot[] = [];
+  for (let i = 0; i < count; ++i) {
+    out.push(slots[Math.floor(i * slots.length / count)]);
+  }
+  return out;
+}
+
+/**
+ * Describe a slot for humans.
+ */
+export function formatSlot(slot: Slot) {
+  return `${slot.start.format('ddd MMM D, h:mm a')}` +
+    `–${slot.end.format('h:mm a')}`;
+}
@@ -0,0 +1,192 @@
+/**
+ * A persistent job scheduler, backed by the database so that jobs survive
+ * restarts.
+ */
+
+/**
+ * How often to check for due jobs (in milliseconds).
+ */
+const TICK_INTERVAL = 60 * 1000;
+
+/**
+ * How long to wait before retrying a job that failed (in milliseconds).
+ */
+const RETRY_DELAY = 5 * 60 * 1000;
+
+/**
+ * A job stored in the database.
+ */
+export interface Job {
+  /**
+   * A unique name for the job, for replacing or cancelling it later.
+   */
+  key: string;
+
+  /**
+   * The kind of job, which determines the handler that runs it.
+   */
+  kind: string;
+
+  /**
+   * When the job should next run, as a Unix timestamp in milliseconds.
+   */
+  due: number;
+
+  /**
+   * Anything the handler needs to know.
+   */
+  data: any;
+}
+
+/**
+ * Runs a job. Produces the time when the job should run again or null if
+ * the job is finished and should be removed.
+ */
+export type JobHandler = (job: Job) => Promise<number | null>;
+
+/**
+ * Runs jobs when they come due.
+ */
+export class Scheduler {
+  public jobs: LokiCollection<Job>;
+  public handlers = new Map<string, JobHandler>();
+  private timer: NodeJS.Timer | null = null;
+  private ticking = false;
+
+  constructor(
+    public db: Loki,
+  ) {
+    this.jobs = (db.getCollection("jobs") ||
+      db.addCollection("jobs")) as LokiCollection<Job>;
+  }
+
+  /**
+   * Register the handler for a kind of job.
+   */
+  on(kind: string, handler: JobHandler) {
+    this.handlers.set(kind, handler);
+  }
+
+  /**
+   * Get a job by its key, if it exists.
+   */
+  get(key: string): Job | null {
+    return this.jobs.findOne({ key }) || null;
+  }
+
+  /**
+   * Add a job, replacing any existing job with the same key.
+   */
+  schedule(key: string, kind: string, due: number, data: any = {}) {
+    let job = this.get(key);
+    if (job) {
+      job.kind = kind;
+      job.due = due;
+      job.data = data;
+      this.jobs.update(job);
+    } else {
+      this.jobs.insert({ key, kind, due, data });
+    }
+    this.db.saveDatabase();
+  }
+
+  /**
+   * Remove a job. Return a flag indicating whether it existed.
+   */
+  cancel(key: string): boolean {
+    let job = this.get(key);
+    if (job) {
+      this.jobs.remove(job);
+      this.db.saveDatabase();
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Start checking for due jobs periodically.
+   */
+  start() {
+    if (!this.timer) {
+      this.timer = setInterval(() => this.tick(), TICK_INTERVAL);
+      this.tick();
+    }
+  }
+
+  /**
+   * Stop checking for jobs.
+   */
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run all the jobs that are due.
+   */
+  async tick(now = Date.now()) {
+    // Don't start a new round while slow jobs from the last one are running.
+    if (this.ticking) {
+      return;
+    }
+    this.ticking = true;
+    try {
+      await this.runDue(now);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Run the jobs that are due at a given time.
+   */
+  private async runDue(now: number) {
+    let keys = this.jobs.chain().find({ due: { '$lte': now } }).data()
+      .map(job => job.key);
+    for (let key of keys) {
+      // Look the job up again, since an earlier handler might have cancelled
+      // or rescheduled it while we waited.
+      let job = this.get(key);
+      if (!job || job.due > now) {
+        continue;
+      }
+      let handler = this.handlers.get(job.kind);
+      if (!handler) {
+        console.error(`no handler for job ${job.key} of kind ${job.kind}`);
+        continue;
+      }
+
+      let due = job.due;
+      let data = JSON.stringify(job.data);
+      let next: number | null;
+      try {
+        next = await handler(job);
+      } catch (e) {
+        console.error(`job ${job.key} failed: ${e}`);
+        next = now + RETRY_DELAY;
+      }
+
+      // Leave the job alone if it was cancelled or rescheduled while the
+      // handler ran (including by the handler itself). `schedule` changes
+      // jobs in place, so we compare what the job says rather than which
+      // object it is.
+      let current = this.get(key);
+      if (!current || current.due !== due ||
+          JSON.stringify(current.data) !== data) {
+        continue;
+      }
+      if (next === null) {
+        this.jobs.remove(current);
+      } else {
+        current.due = next;
+        this.jobs.update(current);
+      }
+    }
+
+    if (keys.length) {
+      this.db.saveDatabase();
+    }
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Encrypting secrets (passwords, tokens) for storage at rest.
+ */
+
+import * as crypto from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+/**
+ * Sealed values are strings that start with this marker, so we can tell
+ * them apart from old plaintext values.
+ */
+const PREFIX = 'sealed:v1:';
+
+/**
+ * An encrypted value, as produced by `Vault.seal`.
+ */
+export type Sealed = string;
+
+/**
+ * Check whether a stored value is sealed.
+ */
+export function isSealed(value: any): value is Sealed {
+  return typeof value === 'string' && value.startsWith(PREFIX);
+}
+
+/**
+ * Encrypts and decrypts values with a key. Any JSON-serializable value can be
+ * sealed.
+ *
+ * A vault without a key leaves values in plaintext. That's only meant for
+ * development.
+ */
+export class Vault {
+  private key: Buffer | null;
+
+  /**
+   * Create a vault from a passphrase, which should be a long random string.
+   */
+  constructor(passphrase: string | null) {
+    this.key = passphrase ?
+      crypto.createHash('sha256').update(passphrase).digest() :
+      null;
+  }
+
+  /**
+   * Whether this vault actually encrypts anything.
+   */
+  get enabled() {
+    return this.key !== null;
+  }
+
+  /**
+   * Encrypt a value for storage.
+   */
+  seal<T>(value: T): T | Sealed {
+    if (!this.key) {
+      return value;
+    }
+    let iv = crypto.randomBytes(IV_BYTES);
+    let cipher = crypto.createCipheriv(ALGORITHM, this.key, iv);
+    let data = Buffer.concat([
+      cipher.update(new Buffer(JSON.stringify(value), 'utf8')),
+      cipher.final(),
+    ]);
+    let tag = cipher.getAuthTag();
+    return PREFIX + Buffer.concat([iv, tag, data]).toString('base64');
+  }
+
+  /**
+   * Decrypt a stored value. Values that were never sealed are passed
+   * through unchanged.
+   */
+  open<T>(value: T | Sealed): T {
+    if (!isSealed(value)) {
+      return value as T;
+    }
+    if (!this.key) {
+      throw "cannot decrypt secret: no key configured";
+    }
+
+    let raw = new Buffer(value.slice(PREFIX.length), 'base64');
+    let iv = raw.slice(0, IV_BYTES);
+    let tag = raw.slice(IV_BYTES, IV_BYTES + TAG_BYTES);
+    let data = raw.slice(IV_BYTES + TAG_BYTES);
+
+    let decipher = crypto.createDecipheriv(ALGORITHM, this.key, iv);
+    decipher.setAuthTag(tag);
+    let json: string;
+    try {
+      json = Buffer.concat([decipher.update(data), decipher.final()])
+        .toString('utf8');
+    } catch (e) {
+      throw "cannot decrypt secret: wrong key?";
+    }
+    return JSON.parse(json);
+  }
+}
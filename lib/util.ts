@@ -40,12 +40,30 @@ export function findURL(s: string): string | null {
 }
 
 /**
- * Generate a random, URL-safe slug.
+ * Check whether a reply is an affirmative answer to a yes/no question.
  */
-export function randomString() {
+export function isYes(s: string): boolean {
+  return /^\s*(y|yes|yeah|yep|sure|ok|okay|please)\b/i.test(s);
+}
+
+/**
+ * Check whether a message asks to abandon the current interaction. Only
+ * messages that say nothing else count, so "stop sharing my calendar" or a
+ * meeting called "Stop by the lab" don't cancel anything.
+ */
+export function isCancel(s: string): boolean {
+  return /^(cancel|never ?mind|nvm|forget (it|about it)|stop|quit)[.!]?$/i
+    .test(s.trim());
+}
+
+/**
+ * Generate a random, URL-safe slug with a given number of characters.
+ */
+export function randomString(length = 10) {
   // I'd use base64 here if there were an option for a URL-safe version (or
   // even base32).
-  return crypto.randomBytes(8).toString('hex').slice(0, 10);
+  return crypto.randomBytes(Math.ceil(length / 2)).toString('hex')
+    .slice(0, length);
 }
 
 /**
@@ -78,6 +96,13 @@ export class IVars<T> {
     return this.callbacks.has(key);
   }
 
+  /**
+   * Stop waiting for a value. Anyone who called `get` never gets one.
+   */
+  delete(key: string) {
+    this.callbacks.delete(key);
+  }
+
   /**
    * Get a value from someone who calls `put`.
    *
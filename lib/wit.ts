@@ -1,37 +1,54 @@
 /**
- * Utilities for interacting with the Wit API.
+ * An NLU backend using the Wit API.
  */
 
 import * as node_wit from 'node-wit';
+import * as nlu from './nlu';
 
-export interface Entity {
-  confidence: number;
-  value: string;
-}
+/**
+ * Wit reports intents as just another entity with this name.
+ */
+const INTENT_ENTITY = 'intent';
 
 /**
- * Get an Entity from a response by its name (or null if no such entity exists).
+ * Convert one of Wit's entity values into our common representation.
  */
-export function getEntity(res: node_wit.MessageResponse,
-                          name: string): Entity | null {
-  for (let res_name in res.entities) {
-    let entities: Entity[] = res.entities[name];
-    if (res_name === name) {
-      return entities[0];
-    }
-  }
-  return null;
+function entityFromWit(data: any): nlu.Entity {
+  return {
+    value: data.value,
+    confidence: data.confidence,
+    data,
+  };
 }
 
 /**
- * Get the value of an entity in the response by its name.
+ * Understand messages using a Wit app.
  */
-export function entityValue(res: node_wit.MessageResponse,
-                            name: string): string | null {
-  let entity = getEntity(res, name);
-  if (entity) {
-    return entity.value;
-  } else {
-    return null;
+export class WitNLU implements nlu.NLU {
+  public client: node_wit.Wit;
+
+  constructor(token: string) {
+    this.client = new node_wit.Wit({ accessToken: token });
+  }
+
+  async parse(text: string, context?: nlu.Context): Promise<nlu.Result> {
+    // Have Wit resolve dates and times in the sender's time zone.
+    let witContext: node_wit.WitContext = {};
+    if (context) {
+      witContext.timezone = context.zone;
+      witContext.reference_time = context.now.format();
+    }
+    let res = await this.client.message(text, witContext);
+
+    let result: nlu.Result = { text, intents: [], entities: {} };
+    for (let name in res.entities) {
+      let entities = nlu.byConfidence(res.entities[name].map(entityFromWit));
+      if (name === INTENT_ENTITY) {
+        result.intents = entities;
+      } else {
+        result.entities[name] = entities;
+      }
+    }
+    return result;
   }
 }
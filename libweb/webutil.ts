@@ -34,6 +34,16 @@ export function query(req: http.IncomingMessage) {
   return u.searchParams;
 }
 
+/**
+ * Send the browser to another page. This uses "See Other," so a form
+ * submission is followed by an ordinary GET.
+ */
+export function redirect(res: http.ServerResponse, location: string) {
+  res.statusCode = 303;
+  res.setHeader('Location', location);
+  res.end();
+}
+
 /**
  * Send a file from the filesystem as an HTTP response.
  */
@@ -12,9 +12,15 @@ export interface Conversation {
   send(text: string): void;
 
   /**
-   * Wait for a message in this conversation.
+   * Wait for a message in this conversation. If `timeout` (in milliseconds)
+   * is given and no message arrives in time, fail with `TIMEOUT`.
    */
-  recv(): Promise<string>;
+  recv(timeout?: number): Promise<string>;
+
+  /**
+   * Stop waiting for messages: any pending `recv` fails with `CANCELLED`.
+   */
+  cancel(): void;
 
   /**
    * A string identifying the user that this conversation is with.
@@ -40,10 +46,47 @@ export type ConversationHandler =
  * A bot connection dispatches to conversation handlers.
  */
 export interface Bot {
+  /**
+   * The namespace for users of this bot (matching `Conversation.namespace`).
+   */
+  namespace: string;
+
   /**
    * Register a callback for new conversations.
    */
   onconverse: ConversationHandler | null;
+
+  /**
+   * Start a new conversation with a user, so the bot can message them
+   * without waiting to be spoken to first. Fails with `UNREACHABLE` if the
+   * bot has no way to message that user alone.
+   */
+  open(user: string): Promise<Conversation>;
+}
+
+/**
+ * The error for a `recv` that waited too long.
+ */
+export const TIMEOUT = "timed out waiting for a message";
+
+/**
+ * The error for a `recv` that was cancelled.
+ */
+export const CANCELLED = "conversation cancelled";
+
+/**
+ * The error for an `open` with a user the bot can't message on its own.
+ */
+export const UNREACHABLE = "cannot message this user";
+
+/**
+ * A thread of conversation waiting on a channel.
+ */
+interface Waiter<K, M> {
+  key: K;
+  resolve: (message: M) => void;
+  reject: (reason: string) => void;
+  timer?: NodeJS.Timer;
 }
 
 /**
@@ -51,17 +94,51 @@ export interface Bot {
  * identified by keys, K.
  */
 export class Spool<K, M> {
-  private waiters: [K, (message: M) => void][] = [];
+  private waiters: Waiter<K, M>[] = [];
 
   /**
-   * Await a message on a given channel.
+   * Await a message on a given channel. If `timeout` (in milliseconds) is
+   * given, give up after that long and fail with `TIMEOUT`.
    */
-  wait(key: K): Promise<M> {
+  wait(key: K, timeout?: number): Promise<M> {
     return new Promise((resolve, reject) => {
-      this.waiters.push([key, resolve]);
+      let waiter: Waiter<K, M> = { key, resolve, reject };
+      if (timeout !== undefined) {
+        waiter.timer = setTimeout(() => {
+          this.remove(waiter);
+          reject(TIMEOUT);
+        }, timeout);
+      }
+      this.waiters.push(waiter);
     });
   }
 
+  /**
+   * Stop waiting on a channel. Anyone waiting fails with `CANCELLED`.
+   * Return a flag indicating whether anyone was waiting.
+   */
+  cancel(key: K): boolean {
+    let cancelled = this.waiters.filter(w => w.key === key);
+    for (let waiter of cancelled) {
+      this.remove(waiter);
+      waiter.reject(CANCELLED);
+    }
+    return cancelled.length > 0;
+  }
+
+  /**
+   * Remove a waiter from the list and stop its timer.
+   */
+  private remove(waiter: Waiter<K, M>) {
+    let i = this.waiters.indexOf(waiter);
+    if (i !== -1) {
+      this.waiters.splice(i, 1);
+    }
+    if (waiter.timer) {
+      clearTimeout(waiter.timer);
+    }
+  }
+
   /**
    * Dispatch a message on a channel. If there is a callback waiting for this
    * message, pop and return it. Otherwise, return null.
@@ -69,10 +146,10 @@ export class Spool<K, M> {
   dispatch(key: K, message: M): ((message: M) => void) | null {
     // Check whether there's a callback waiting for this message and,
     // if so, remove it.
-    for (let [i, [k, cbk]] of this.waiters.entries()) {
-      if (k === key) {
-        this.waiters.splice(i, 1);
-        return cbk;
+    for (let waiter of this.waiters) {
+      if (waiter.key === key) {
+        this.remove(waiter);
+        return waiter.resolve;
       }
     }
 
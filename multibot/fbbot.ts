@@ -6,34 +6,61 @@ import * as basebot from './basebot';
 import Messenger = require('messenger-bot');
 import * as http from 'http';
 
+/**
+ * The message tag for messages the bot sends on its own. Messenger only
+ * allows these outside the 24 hours after the user's last message when they
+ * are tagged, and our reminders and digests are about the user's events.
+ */
+const PROACTIVE_TAG = 'CONFIRMED_EVENT_UPDATE';
+
 /**
  * A thread of interaction with a specific Facebook user.
  */
 class Conversation implements basebot.Conversation {
+  /**
+   * Create a conversation. It's `proactive` if the bot started it rather
+   * than the user.
+   */
   constructor(
     public fb: FacebookBot,
     public user: string,
+    public proactive = false,
   ) {}
 
   /**
-   * Send a message to the user.
+   * Send a message to the user. Messenger can refuse it (e.g., if the user
+   * blocked the page), so failures are logged rather than thrown.
    */
   send(text: string) {
-    this.fb.msgr.sendMessage(this.user, { text }, (err: any) => {
+    let cbk = (err: any) => {
       if (err) {
-        throw err;
+        console.error(`could not message ${this.user} on Messenger: ` +
+                      `${err.message || err}`);
       }
-    });
+    };
+    if (this.proactive) {
+      this.fb.msgr.sendMessage(this.user, { text }, cbk, 'MESSAGE_TAG',
+                               PROACTIVE_TAG);
+    } else {
+      this.fb.msgr.sendMessage(this.user, { text }, cbk, 'RESPONSE');
+    }
   }
 
   /**
    * Receive the next message from the user.
    */
-  async recv() {
-    let msg = await this.fb.spool.wait(this.user);
+  async recv(timeout?: number) {
+    let msg = await this.fb.spool.wait(this.user, timeout);
     return msg.text;
   }
 
+  /**
+   * Stop waiting for messages from the user.
+   */
+  cancel() {
+    this.fb.spool.cancel(this.user);
+  }
+
   namespace = "facebook";
 }
 
@@ -50,6 +77,7 @@ export class FacebookBot implements basebot.Bot {
   public msgr: Messenger;
   public onconverse: basebot.ConversationHandler | null;
   public spool = new basebot.Spool<string, Message>();
+  public namespace = "facebook";
 
   /**
    * Create a Messenger connection with a given page token and webhook verify
@@ -72,6 +100,13 @@ export class FacebookBot implements basebot.Bot {
     });
   }
 
+  /**
+   * Start a conversation with a user, identified by their page-scoped ID.
+   */
+  async open(user: string) {
+    return new Conversation(this, user, true);
+  }
+
   /**
    * Get the request handler for receiving webhook requests from the Messenger
    * service.
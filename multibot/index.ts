@@ -3,4 +3,4 @@
  * services.
  */
 
-export { Bot, Conversation } from './basebot';
+export { Bot, Conversation, TIMEOUT, CANCELLED } from './basebot';
@@ -102,6 +102,29 @@ const EVENT_IDS = {
 
 type MessageHandler = (message: Message) => void;
 
+/**
+ * Get the IDs of all the users @-mentioned in a message's text. Slack
+ * encodes mentions like `<@U1234>` or `<@U1234|name>`.
+ */
+export function mentions(text: string): string[] {
+  let ids: string[] = [];
+  let re = /<@(\w+)(?:\|[^>]*)?>/g;
+  let match: RegExpExecArray | null;
+  while (match = re.exec(text)) {
+    if (ids.indexOf(match[1]) === -1) {
+      ids.push(match[1]);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Format an @-mention of a user for a message.
+ */
+export function mention(id: string): string {
+  return `<@${id}>`;
+}
+
 /**
  * Encapsulates methods for interacting in the scope of a specific channel
  * with a specific user.
@@ -123,8 +146,15 @@ export class Conversation implements basebot.Conversation {
   /**
    * Receive a message on the channel.
    */
-  async recv() {
-    return (await this.slack.spool.wait(this.chanId)).text;
+  async recv(timeout?: number) {
+    return (await this.slack.spool.wait(this.chanId, timeout)).text;
+  }
+
+  /**
+   * Stop waiting for messages on the channel.
+   */
+  cancel() {
+    this.slack.spool.cancel(this.chanId);
   }
 
   /**
@@ -139,6 +169,7 @@ export class Conversation implements basebot.Conversation {
  */
 export class SlackBot implements basebot.Bot {
   public rtm: any;
+  public web: any;
 
   public channels: Map<string, Channel> = new Map();
   public ims: Map<string, IM> = new Map();
@@ -147,13 +178,15 @@ export class SlackBot implements basebot.Bot {
 
   public onconverse: basebot.ConversationHandler | null = null;
   public spool = new basebot.Spool<string, Message>();
+  public namespace = "slack";
 
   /**
-   * Construct a bot by creating a Slack RTM client object and attach this
-   * bot's listeners.
+   * Construct a bot by creating Slack RTM and Web API client objects and
+   * attach this bot's listeners.
    */
   constructor(token: string) {
     this.rtm = new slack_client.RtmClient(token);
+    this.web = new slack_client.WebClient(token);
 
     // Event handler for successful connection.
     this.rtm.on(slack_client.CLIENT_EVENTS.RTM.AUTHENTICATED,
@@ -193,6 +226,24 @@ export class SlackBot implements basebot.Bot {
     return null;
   }
 
+  /**
+   * Start a direct-message conversation with a user, opening an IM channel
+   * if we don't already have one.
+   */
+  async open(user: string): Promise<Conversation> {
+    for (let [, im] of this.ims) {
+      if (im.user === user) {
+        return new Conversation(this, im.id, user);
+      }
+    }
+
+    let res = await this.web.im.open(user);
+    if (!res.ok) {
+      throw "could not open IM channel";
+    }
+    return new Conversation(this, res.channel.id, user);
+  }
+
   /**
    * Send a message.
    */
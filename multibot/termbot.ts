@@ -18,9 +18,13 @@ class Conversation implements basebot.Conversation {
     this.termbot.print(text);
   }
 
-  async recv() {
+  async recv(timeout?: number) {
     this.termbot.rl.prompt();
-    return await this.termbot.spool.wait(null);
+    return await this.termbot.spool.wait(null, timeout);
+  }
+
+  cancel() {
+    this.termbot.spool.cancel(null);
   }
 
   namespace = "terminal";
@@ -35,6 +39,7 @@ export class TerminalBot implements basebot.Bot {
   public rl: readline.ReadLine;
   public spool = new basebot.Spool<null, string>();
   public onconverse: basebot.ConversationHandler | null = null;
+  public namespace = "terminal";
 
   /**
    * Wait for terminal input and dispatch it.
@@ -57,6 +62,13 @@ export class TerminalBot implements basebot.Bot {
     });
   }
 
+  /**
+   * Start a conversation with the (only) user at the terminal.
+   */
+  async open(user: string) {
+    return new Conversation(this, user);
+  }
+
   /**
    * Print a line of dialogue to the console.
    */
@@ -21,8 +21,12 @@ class Conversation implements basebot.Conversation {
     this.webbot.send('bot', text);
   }
 
-  async recv() {
-    return await this.webbot.spool.wait(null);
+  async recv(timeout?: number) {
+    return await this.webbot.spool.wait(null, timeout);
+  }
+
+  cancel() {
+    this.webbot.spool.cancel(null);
   }
 
   namespace = "web";
@@ -115,6 +119,7 @@ export class WebBot implements basebot.Bot {
   public spool = new basebot.Spool<null, string>();
   public onconverse: basebot.ConversationHandler | null = null;
   public ssebuf = new SSEBuffer();
+  public namespace = "web";
 
   /**
    * The server routes for interacting with the bot.
@@ -151,6 +156,15 @@ export class WebBot implements basebot.Bot {
     ];
   }
 
+  /**
+   * Start a conversation with the web user. There's only one web session
+   * for now, shared by every browser, so there's no way to message a single
+   * user.
+   */
+  async open(user: string): Promise<Conversation> {
+    throw basebot.UNREACHABLE;
+  }
+
   /**
    * Send a message to clients.
    */
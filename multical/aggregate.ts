@@ -0,0 +1,121 @@
+/**
+ * A calendar that combines several others, so the rest of the bot can treat
+ * them as one.
+ */
+
+import * as calbase from './calbase';
+import * as office from './office';
+import * as moment from 'moment-timezone';
+
+/**
+ * Separates the index of the source calendar from the source's own ID in the
+ * IDs of aggregated events.
+ */
+const ID_SEPARATOR = ':';
+
+/**
+ * Check whether two events from different calendars are really the same one
+ * (e.g., a meeting invitation that went to both a work and a personal
+ * address). We compare UIDs when both calendars have them and otherwise
+ * fall back to comparing titles and times.
+ */
+function sameEvent(a: calbase.Event, b: calbase.Event) {
+  if (!a.start.isSame(b.start)) {
+    return false;
+  }
+  if (a.uid && b.uid) {
+    return a.uid === b.uid;
+  }
+  return a.end.isSame(b.end) &&
+    a.title.trim().toLowerCase() === b.title.trim().toLowerCase();
+}
+
+/**
+ * Several calendars merged together. Events that appear on more than one
+ * calendar are only listed once, from the first calendar that has them.
+ * New events go on the `target` calendar (the first one, by default);
+ * changes to existing events go to the calendar they came from.
+ */
+export class Calendar implements calbase.Calendar {
+  constructor(
+    public sources: calbase.Calendar[],
+    public target = 0,
+  ) {}
+
+  /**
+   * Find the source calendar for an aggregated event ID. Produces the
+   * calendar and the ID it uses for the event.
+   */
+  private source(id: string): [calbase.Calendar, string] {
+    let sep = id.indexOf(ID_SEPARATOR);
+    let cal = this.sources[parseInt(id.slice(0, sep))];
+    if (sep === -1 || !cal) {
+      throw "no such event";
+    }
+    return [cal, id.slice(sep + 1)];
+  }
+
+  /**
+   * Get the events from all the calendars. A calendar we can't reach is
+   * left out (and logged) unless all of them fail. Expired authorization
+   * still fails the whole request, so the user can link it again.
+   */
+  async getEvents(start: moment.Moment, end: moment.Moment) {
+    let errors: any[] = [];
+    let results = await Promise.all(this.sources.map((cal, i) =>
+      cal.getEvents(start, end).catch(e => {
+        console.error(`error getting events from calendar ${i}: ${e}`);
+        errors.push(e);
+        return null;
+      })
+    ));
+    if (errors.indexOf(office.REAUTHORIZE) !== -1) {
+      throw office.REAUTHORIZE;
+    }
+    if (errors.length && errors.length === this.sources.length) {
+      throw errors[0];
+    }
+
+    let events: calbase.Event[] = [];
+    results.forEach((sourceEvents, i) => {
+      if (!sourceEvents) {
+        return;
+      }
+      // Only look for duplicates among the earlier calendars' events, not
+      // this calendar's own.
+      let earlier = events.slice();
+      for (let event of sourceEvents) {
+        if (earlier.some(e => sameEvent(e, event))) {
+          continue;
+        }
+        let id = event.id === undefined ? undefined :
+          `${i}${ID_SEPARATOR}${event.id}`;
+        events.push({ ...event, id });
+      }
+    });
+    return events.sort((a, b) => a.start.diff(b.start));
+  }
+
+  async createEvent(event: calbase.Event) {
+    let cal = this.sources[this.target];
+    if (!cal) {
+      throw "no calendars to add the event to";
+    }
+    let created = await cal.createEvent(event);
+    return { ...created, id: `${this.target}${ID_SEPARATOR}${created.id}` };
+  }
+
+  async updateEvent(event: calbase.Event) {
+    if (!event.id) {
+      throw "cannot update an event without an id";
+    }
+    let [cal, id] = this.source(event.id);
+    await cal.updateEvent({ ...event, id });
+    return event;
+  }
+
+  async deleteEvent(id: string) {
+    let [cal, sourceID] = this.source(id);
+    await cal.deleteEvent(sourceID);
+  }
+}
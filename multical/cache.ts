@@ -0,0 +1,100 @@
+/**
+ * A cache in front of any calendar, so that looking at the same days
+ * several times in a row doesn't go back to the server each time.
+ */
+
+import * as calbase from './calbase';
+import * as moment from 'moment-timezone';
+
+/**
+ * How long fetched events stay fresh by default (in milliseconds).
+ */
+const DEFAULT_TTL = 2 * 60 * 1000;
+
+/**
+ * The events in a range of time, as fetched at some point.
+ */
+interface Entry {
+  start: moment.Moment;
+  end: moment.Moment;
+  events: calbase.Event[];
+  fetched: number;
+}
+
+/**
+ * A calendar that remembers the events it has fetched from another one for
+ * a while. A request for a range within one we fetched recently is answered
+ * from memory. Any change made through this calendar empties the cache
+ * (changes made elsewhere show up once the cached events expire).
+ */
+export class Calendar implements calbase.Calendar {
+  private entries: Entry[] = [];
+
+  /**
+   * The number of requests answered from the cache and the number that
+   * went to the underlying calendar, for diagnostics.
+   */
+  public hits = 0;
+  public misses = 0;
+
+  constructor(
+    public inner: calbase.Calendar,
+    public ttl = DEFAULT_TTL,
+  ) {}
+
+  /**
+   * Forget everything we have fetched.
+   */
+  invalidate() {
+    this.entries = [];
+  }
+
+  async getEvents(start: moment.Moment, end: moment.Moment) {
+    let now = Date.now();
+    this.entries = this.entries.filter(e => now - e.fetched < this.ttl);
+
+    let entry = this.entries.find(e =>
+      !e.start.isAfter(start) && !e.end.isBefore(end)
+    );
+    if (entry) {
+      this.hits++;
+      return entry.events.filter(e =>
+        e.end.isAfter(start) && e.start.isBefore(end)
+      );
+    }
+
+    this.misses++;
+    let events = await this.inner.getEvents(start, end);
+    this.entries.push({
+      start: start.clone(),
+      end: end.clone(),
+      events,
+      fetched: now,
+    });
+    return events.slice();
+  }
+
+  async createEvent(event: calbase.Event) {
+    try {
+      return await this.inner.createEvent(event);
+    } finally {
+      this.invalidate();
+    }
+  }
+
+  async updateEvent(event: calbase.Event) {
+    try {
+      return await this.inner.updateEvent(event);
+    } finally {
+      this.invalidate();
+    }
+  }
+
+  async deleteEvent(id: string) {
+    try {
+      await this.inner.deleteEvent(id);
+    } finally {
+      this.invalidate();
+    }
+  }
+}
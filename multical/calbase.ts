@@ -4,17 +4,111 @@
 import { Moment } from 'moment';
 
 /**
- * A calendar event.
+ * Someone involved in an event.
+ */
+export interface Person {
+  email: string;
+  name?: string;
+}
+
+/**
+ * How an attendee responded to an invitation.
+ */
+export type ResponseStatus = 'accepted' | 'tentative' | 'declined' |
+  'needs-action';
+
+/**
+ * Someone invited to an event.
+ */
+export interface Attendee extends Person {
+  status: ResponseStatus;
+}
+
+/**
+ * Whether an event blocks time on the calendar.
+ */
+export type Availability = 'busy' | 'free';
+
+/**
+ * Who may see an event's details.
+ */
+export type Privacy = 'public' | 'private' | 'confidential';
+
+/**
+ * A calendar event. Only the title and time are required; backends fill in
+ * the rest when the calendar has the information.
  */
 export interface Event {
+  /**
+   * A backend-specific identifier for the event, if it came from (or has
+   * been saved to) a calendar. This is what `updateEvent` and `deleteEvent`
+   * use to find the event.
+   */
+  id?: string;
+
+  /**
+   * The globally unique iCalendar UID, which stays the same across
+   * calendars and backends. All occurrences of a recurring event share it.
+   */
+  uid?: string;
+
   title: string;
   start: Moment;
   end: Moment;
+
+  /**
+   * Whether the event takes up whole days rather than a specific time.
+   */
+  allDay?: boolean;
+
+  /**
+   * Where the event takes place, if the calendar says.
+   */
+  location?: string;
+
+  /**
+   * Notes about the event, as plain text.
+   */
+  description?: string;
+
+  organizer?: Person;
+  attendees?: Attendee[];
+
+  /**
+   * Whether the event makes its owner busy. Events are busy by default.
+   */
+  availability?: Availability;
+
+  privacy?: Privacy;
+
+  /**
+   * A link for viewing the event on the web.
+   */
+  url?: string;
 }
 
 /**
  * A set of calendar events.
  */
 export interface Calendar {
+  /**
+   * Get the events that overlap a range of time.
+   */
   getEvents(start: Moment, end: Moment): Promise<Event[]>;
+
+  /**
+   * Add a new event to the calendar. Produces the saved event, including
+   * its new `id`.
+   */
+  createEvent(event: Event): Promise<Event>;
+
+  /**
+   * Change the details of an existing event, identified by its `id`.
+   */
+  updateEvent(event: Event): Promise<Event>;
+
+  /**
+   * Remove an event from the calendar.
+   */
+  deleteEvent(id: string): Promise<void>;
 }
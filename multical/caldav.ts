@@ -4,10 +4,11 @@
 
 import fetch from 'node-fetch';
 import * as xml2js from 'xml2js';
-import * as ical from 'ical.js';
+import { stripPrefix } from 'xml2js/lib/processors';
 import * as icsutil from './icsutil';
 import * as calbase from './calbase';
-import * as moment from 'moment';
+import * as moment from 'moment-timezone';
+import * as url from 'url';
 
 /**
  * Encode a string using base64.
@@ -24,11 +25,14 @@ function basicauth(username: string, password: string): string {
 }
 
 /**
- * Parse an XML string into an `xml2js` document, asynchronously.
+ * Parse an XML string into an `xml2js` document, asynchronously. Namespace
+ * prefixes are dropped from element names because servers differ in whether
+ * they write `<multistatus>` or `<d:multistatus>`.
  */
 function parseXML(s: string): Promise<any> {
   return new Promise((resolve, reject) => {
-    xml2js.parseString(s, (err, res) => {
+    let options: xml2js.OptionsV2 = { tagNameProcessors: [stripPrefix] };
+    xml2js.parseString(s, options, (err, res) => {
       if (err) {
         reject(err);
       } else {
@@ -39,36 +43,14 @@ function parseXML(s: string): Promise<any> {
 }
 
 /**
- * Parse the first event from a calendar document.
- *
- * CalDAV gives us "singleton" calendars containing just one VEVENT, so
- * this parses the ICS source as a calendar and then get the first (only)
- * calendar in it.
+ * Get the text inside an `xml2js` element, which is a plain string unless the
+ * element has attributes.
  */
-function parseEvent(ics: string) {
-  let cal = icsutil.parse(ics);
-  for (let event of icsutil.getEvents(cal)) {
-    return event;
+function text(node: any): string {
+  if (typeof node === 'string') {
+    return node;
   }
-  throw "no event in calendar";
-}
-
-/**
- * Convert from an iCal time structure into a Moment.
- */
-function dateFromICS(time: ical.Time): moment.Moment {
-  return moment(time.toString());
-}
-
-/**
- * Convert a parsed iCal event into our common event representation.
- */
-function eventFromICS(event: ical.Event): calbase.Event {
-  return {
-    title: event.summary,
-    start: dateFromICS(event.startDate),
-    end: dateFromICS(event.endDate),
-  };
+  return (node && node['_']) || '';
 }
 
 /**
@@ -78,7 +60,7 @@ function eventFromICS(event: ical.Event): calbase.Event {
  * not seem to be supported.
  */
 function davtime(t: moment.Moment) {
-  return t.format('YYYYMMDD[T]HHmmss[Z]');
+  return t.clone().utc().format('YYYYMMDD[T]HHmmss[Z]');
 }
 
 /**
@@ -89,6 +71,7 @@ function rangeQuery(start: moment.Moment, end: moment.Moment) {
   return `<?xml version="1.0" encoding="utf-8" ?>
 <C:calendar-query xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">
   <D:prop>
+    <D:getetag/>
     <C:calendar-data/>
   </D:prop>
   <C:filter>
@@ -101,27 +84,382 @@ function rangeQuery(start: moment.Moment, end: moment.Moment) {
 </C:calendar-query>`;
 };
 
+/**
+ * A query for the ETags of all the events in a calendar, for finding out
+ * which have changed when the server doesn't support sync.
+ */
+const ETAG_QUERY = `<?xml version="1.0" encoding="utf-8" ?>
+<C:calendar-query xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">
+  <D:prop>
+    <D:getetag/>
+  </D:prop>
+  <C:filter>
+    <C:comp-filter name="VCALENDAR">
+      <C:comp-filter name="VEVENT"/>
+    </C:comp-filter>
+  </C:filter>
+</C:calendar-query>`;
+
+/**
+ * Escape text for inclusion in an XML document.
+ */
+function escapeXML(s: string) {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Construct a query for the events at some URLs (`calendar-multiget`).
+ */
+function multigetQuery(hrefs: string[]) {
+  let elems = hrefs.map(href =>
+    `<D:href>${escapeXML(url.parse(href).path!)}</D:href>`
+  );
+  return `<?xml version="1.0" encoding="utf-8" ?>
+<C:calendar-multiget xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">
+  <D:prop>
+    <D:getetag/>
+    <C:calendar-data/>
+  </D:prop>
+  ${elems.join('\n  ')}
+</C:calendar-multiget>`;
+}
+
+/**
+ * Construct a query for what has changed in a collection since a sync
+ * token (RFC 6578). With no token, everything counts as a change.
+ */
+function syncQuery(token: string | null) {
+  return `<?xml version="1.0" encoding="utf-8" ?>
+<D:sync-collection xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">
+  <D:sync-token>${token ? escapeXML(token) : ''}</D:sync-token>
+  <D:sync-level>1</D:sync-level>
+  <D:prop>
+    <D:getetag/>
+    <C:calendar-data/>
+  </D:prop>
+</D:sync-collection>`;
+}
+
+/**
+ * Construct a PROPFIND request body asking for some properties, given as
+ * XML elements using the `D:` (WebDAV), `C:` (CalDAV), and `CS:` (Apple's
+ * CalendarServer extensions) prefixes.
+ */
+function propfindQuery(props: string[]) {
+  return `<?xml version="1.0" encoding="utf-8" ?>
+<D:propfind xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav"
+            xmlns:CS="http://calendarserver.org/ns/">
+  <D:prop>
+    ${props.join('\n    ')}
+  </D:prop>
+</D:propfind>`;
+}
+
+/**
+ * Get the properties that were found for a resource in a multistatus
+ * response. Servers put missing properties in a separate `propstat` with a
+ * 404 status, so we only look at the successful ones.
+ */
+function foundProps(response: any): any {
+  let out: any = {};
+  for (let propstat of response['propstat'] || []) {
+    let status = text(propstat['status'] && propstat['status'][0]);
+    if (/ 2\d\d /.test(status) && typeof propstat['prop'][0] === 'object') {
+      Object.assign(out, propstat['prop'][0]);
+    }
+  }
+  return out;
+}
+
+/**
+ * The parameters for `request`.
+ */
+interface RequestParams {
+  url: string;
+  method: string;
+  body?: string;
+  contentType?: string;
+  headers?: { [key: string]: string };
+}
+
+/**
+ * Make an authenticated request to a CalDAV server.
+ */
+function request(username: string, password: string, params: RequestParams) {
+  let headers: { [key: string]: string } = {
+    'Content-Type': params.contentType || 'text/xml',
+    'Authorization': basicauth(username, password),
+    'User-Agent': 'opal/1.0.0',
+  };
+  Object.assign(headers, params.headers);
+  return fetch(params.url, {
+    method: params.method,
+    headers,
+    body: params.body,
+  });
+}
+
+/**
+ * A calendar collection found on a server.
+ */
+export interface CalendarInfo {
+  url: string;
+  name: string;
+}
+
+/**
+ * Ask the server for some properties of a resource (`depth` 0) or of its
+ * children (`depth` 1). Produces the properties found for each resource,
+ * keyed by absolute URL, or null if the request failed.
+ */
+async function propfind(username: string, password: string, resource: string,
+                        depth: number, props: string[]):
+  Promise<Map<string, any> | null>
+{
+  let res = await request(username, password, {
+    url: resource,
+    method: 'PROPFIND',
+    headers: { 'Depth': depth.toString() },
+    body: propfindQuery(props),
+  });
+  if (res.status !== 207) {
+    return null;
+  }
+  let data = await parseXML(await res.text());
+
+  let out = new Map<string, any>();
+  for (let response of data['multistatus']['response'] || []) {
+    // Redirects (e.g., from the well-known URL) change the base for
+    // relative hrefs.
+    let href = url.resolve(res.url || resource, text(response['href'][0]));
+    out.set(href, foundProps(response));
+  }
+  return out;
+}
+
+/**
+ * Follow a property that points to another resource (like
+ * `current-user-principal`), producing its URL or null if the server doesn't
+ * have it.
+ */
+async function findHref(username: string, password: string, resource: string,
+                        prop: string, elem: string): Promise<string | null> {
+  let found = await propfind(username, password, resource, 0, [elem]);
+  if (!found) {
+    return null;
+  }
+  for (let [base, props] of found) {
+    let value = props[prop] && props[prop][0];
+    if (value && value['href']) {
+      return url.resolve(base, text(value['href'][0]));
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the event calendars available to a user, starting from a server's
+ * address, the user's principal or calendar home, or a calendar itself.
+ *
+ * This is the discovery process from RFC 6764 and RFC 4791: when we're given
+ * only a host, we start at its `/.well-known/caldav` URL. From there we find
+ * the user's principal (`current-user-principal`), its home collection
+ * (`calendar-home-set`), and finally the calendars in the home.
+ */
+export async function discover(serverURL: string, username: string,
+                               password: string): Promise<CalendarInfo[]> {
+  let start = serverURL;
+  let path = url.parse(serverURL).pathname;
+  if (!path || path === '/') {
+    start = url.resolve(serverURL, '/.well-known/caldav');
+  }
+
+  // Some servers don't support the well-known URL, so also try the URL as
+  // given. If there's no principal either, it might be a calendar home or a
+  // calendar itself.
+  let principal: string | null = null;
+  for (let candidate of start === serverURL ? [start] : [start, serverURL]) {
+    principal = await findHref(username, password, candidate,
+                               'current-user-principal',
+                               '<D:current-user-principal/>');
+    if (principal) {
+      break;
+    }
+  }
+  principal = principal || serverURL;
+
+  let home = await findHref(username, password, principal,
+                            'calendar-home-set', '<C:calendar-home-set/>') ||
+    principal;
+
+  // List the home collection. If we were given a calendar's URL directly,
+  // that calendar appears in this list too.
+  let found = await propfind(username, password, home, 1, [
+    '<D:resourcetype/>',
+    '<D:displayname/>',
+    '<C:supported-calendar-component-set/>',
+  ]);
+  if (!found) {
+    throw "could not find calendars on the CalDAV server";
+  }
+
+  let calendars: CalendarInfo[] = [];
+  for (let [href, props] of found) {
+    let type = props['resourcetype'] && props['resourcetype'][0];
+    if (!type || typeof type !== 'object' || !('calendar' in type)) {
+      continue;
+    }
+
+    // Skip task lists and other calendars that can't hold events.
+    let compSet = props['supported-calendar-component-set'];
+    if (compSet && typeof compSet[0] === 'object') {
+      let comps = (compSet[0]['comp'] || []) as any[];
+      if (!comps.some(c => c['$'] && c['$']['name'] === 'VEVENT')) {
+        continue;
+      }
+    }
+
+    // Fall back to the last part of the URL for calendars with no name.
+    let name = props['displayname'] && text(props['displayname'][0]);
+    let last = href.replace(/\/$/, '').split('/').pop()!;
+    calendars.push({ url: href, name: name || decodeURIComponent(last) });
+  }
+  return calendars;
+}
+
+/**
+ * An event resource as we keep it locally.
+ */
+export interface CachedResource {
+  href: string;
+  etag: string | null;
+  ics: string;
+
+  /**
+   * The span of time the resource's events could occupy, as Unix timestamps
+   * in milliseconds; see `icsutil.bounds`.
+   */
+  start: number;
+  end: number;
+}
+
+/**
+ * What a calendar collection looked like when we last synced it. The server
+ * changes the CTag (a CalendarServer extension) and the sync token whenever
+ * anything in the collection changes.
+ */
+export interface SyncState {
+  ctag: string | null;
+  syncToken: string | null;
+}
+
+/**
+ * Local storage for the contents of calendar collections, keyed by their
+ * URLs, so we only need to fetch what has changed.
+ */
+export interface Cache {
+  /**
+   * Get the state of a collection as of the last sync, or null if we have
+   * never synced it.
+   */
+  state(calendar: string): SyncState | null;
+
+  /**
+   * Get all the resources we have for a collection.
+   */
+  resources(calendar: string): CachedResource[];
+
+  /**
+   * Get the resources whose events might overlap a range of time.
+   */
+  inRange(calendar: string, start: number, end: number): CachedResource[];
+
+  /**
+   * Add or replace a resource.
+   */
+  put(calendar: string, resource: CachedResource): void;
+
+  /**
+   * Forget a resource.
+   */
+  remove(calendar: string, href: string): void;
+
+  /**
+   * Record the state after a sync. Changes might not be saved until then.
+   */
+  commit(calendar: string, state: SyncState): void;
+}
+
 /**
  * A client for a specific CalDAV calendar.
+ *
+ * With a cache, we keep a copy of the calendar and only fetch the events
+ * that have changed since last time, using the sync report if the server
+ * supports it and comparing ETags otherwise. Without one, we ask the server
+ * for the events in a range on every request.
  */
-export class Calendar {
+export class Calendar implements calbase.Calendar {
+  /**
+   * The last-known ETags for event resources, keyed by their URLs. We use
+   * these to avoid clobbering changes made by other clients.
+   */
+  private etags = new Map<string, string>();
+
   constructor(
     public url: string,
     public username: string,
     public password: string,
+    public zone = moment.tz.guess(),
+    public cache: Cache | null = null,
   ) {}
 
+  /**
+   * Get the URL for an event resource in this calendar collection.
+   */
+  resourceURL(uid: string) {
+    let base = this.url.endsWith('/') ? this.url : this.url + '/';
+    return url.resolve(base, encodeURIComponent(uid) + '.ics');
+  }
+
+  /**
+   * Internal wrapper for authenticated requests to the server. The URL
+   * defaults to the calendar collection itself.
+   */
+  request(params: Partial<RequestParams> & { method: string }) {
+    return request(this.username, this.password,
+                   { ...params, url: params.url || this.url });
+  }
+
+  /**
+   * Remember the ETag for a resource from a server response, if any.
+   */
+  private saveETag(resource: string, etag: string | null) {
+    if (etag) {
+      this.etags.set(resource, etag);
+    } else {
+      this.etags.delete(resource);
+    }
+  }
+
+  /**
+   * Get the `If-Match` precondition for modifying a resource that we have
+   * seen before, so we don't overwrite someone else's changes.
+   */
+  private ifMatch(resource: string): { [key: string]: string } {
+    let etag = this.etags.get(resource);
+    return etag ? { 'If-Match': etag } : {};
+  }
+
   /**
    * Fetch events from the calendar between a pair of times.
    */
   async getEvents(start: moment.Moment, end: moment.Moment) {
-    let res = await fetch(this.url, {
+    if (this.cache) {
+      return await this.getCachedEvents(start, end);
+    }
+
+    let res = await this.request({
       method: 'REPORT',
-      headers: {
-        'Content-Type': 'text/xml',
-        'Authorization': basicauth(this.username, this.password),
-        'User-Agent': 'opal/1.0.0',
-      },
       body: rangeQuery(start, end),
     });
     if (!res.ok) {
@@ -131,16 +469,310 @@ export class Calendar {
 
     // The response XML document has this form:
     //   <multistatus>
-    //     <response><propstat><prop><calendar-data>[ICS HERE]
+    //     <response>
+    //       <href>[RESOURCE URL]</href>
+    //       <propstat><prop>
+    //         <getetag>[ETAG]</getetag>
+    //         <calendar-data>[ICS HERE]</calendar-data>
     //     ...
     //   </multistatus>
-    // Parse each ICS document in this structure.
-    let events = [];
-    for (let response of data['multistatus']['response']) {
-      let ics = response['propstat'][0]['prop'][0]['calendar-data'][0]['_'];
-      events.push(parseEvent(ics));
+    // Parse each ICS document in this structure. Each document holds one
+    // event, which may recur, so we expand it into the occurrences in range.
+    let events: calbase.Event[] = [];
+    for (let response of data['multistatus']['response'] || []) {
+      let resource = url.resolve(this.url, text(response['href'][0]));
+      let prop = response['propstat'][0]['prop'][0];
+      this.saveETag(resource,
+                    prop['getetag'] ? text(prop['getetag'][0]) : null);
+      let ics = text(prop['calendar-data'][0]);
+      events.push(...icsutil.eventsInRange(icsutil.parse(ics), start, end,
+                                           this.zone, resource));
+    }
+
+    return events;
+  }
+
+  /**
+   * Bring the cache up to date and then get the events in a range from it.
+   */
+  private async getCachedEvents(start: moment.Moment, end: moment.Moment) {
+    let cache = this.cache!;
+    await this.sync();
+
+    let events: calbase.Event[] = [];
+    for (let res of cache.inRange(this.url, start.valueOf(), end.valueOf())) {
+      this.saveETag(res.href, res.etag);
+      events.push(...icsutil.eventsInRange(icsutil.parse(res.ics), start, end,
+                                           this.zone, res.href));
+    }
+    return events;
+  }
+
+  /**
+   * Fetch whatever has changed on the server since we last synced and
+   * update the cache.
+   */
+  async sync() {
+    let cache = this.cache!;
+    let old = cache.state(this.url);
+    let current = await this.syncState();
+    if (old && ((current.ctag && current.ctag === old.ctag) ||
+                (current.syncToken && current.syncToken === old.syncToken))) {
+      return;  // Nothing has changed.
+    }
+
+    // Prefer the sync report. If the server doesn't support it or has
+    // forgotten our token, compare ETags instead.
+    let token: string | null = null;
+    if (current.syncToken) {
+      token = await this.syncChanges(old ? old.syncToken : null);
+    }
+    if (!token) {
+      await this.fetchChanges();
+    }
+    cache.commit(this.url, {
+      ctag: current.ctag,
+      syncToken: token || current.syncToken,
+    });
+  }
+
+  /**
+   * Ask the server for the collection's current CTag and sync token, either
+   * of which may be missing.
+   */
+  private async syncState(): Promise<SyncState> {
+    let found = await propfind(this.username, this.password, this.url, 0,
+                               ['<CS:getctag/>', '<D:sync-token/>']);
+    if (!found) {
+      throw "error communicating with CalDAV server";
+    }
+    let state: SyncState = { ctag: null, syncToken: null };
+    for (let props of found.values()) {
+      if (props['getctag']) {
+        state.ctag = text(props['getctag'][0]) || null;
+      }
+      if (props['sync-token']) {
+        state.syncToken = text(props['sync-token'][0]) || null;
+      }
+    }
+    return state;
+  }
+
+  /**
+   * Use the sync report to update the cache with the changes since a sync
+   * token (or everything, with no token). Produces the new sync token, or
+   * null if the report didn't work.
+   */
+  private async syncChanges(token: string | null): Promise<string | null> {
+    let res = await this.request({ method: 'REPORT', body: syncQuery(token) });
+    if (res.status !== 207) {
+      return null;
+    }
+    let data = await parseXML(await res.text());
+
+    // Changed resources come with their new data (usually), and deleted
+    // ones come with a 404 status.
+    let missing: string[] = [];
+    for (let response of data['multistatus']['response'] || []) {
+      let href = url.resolve(this.url, text(response['href'][0]));
+      if (this.isCollection(href)) {
+        continue;
+      }
+      let status = text(response['status'] && response['status'][0]);
+      if (/ 404 /.test(status)) {
+        this.cache!.remove(this.url, href);
+        continue;
+      }
+      let props = foundProps(response);
+      if (props['calendar-data']) {
+        this.store(href, props);
+      } else {
+        missing.push(href);
+      }
+    }
+    await this.fetchResources(missing);
+
+    let newToken = data['multistatus']['sync-token'];
+    return newToken ? text(newToken[0]) || null : null;
+  }
+
+  /**
+   * Update the cache by listing the ETags of all the events on the server
+   * and fetching the ones that are new or different.
+   */
+  private async fetchChanges() {
+    let cache = this.cache!;
+    let res = await this.request({
+      method: 'REPORT',
+      headers: { 'Depth': '1' },
+      body: ETAG_QUERY,
+    });
+    if (!res.ok) {
+      throw "error communicating with CalDAV server";
+    }
+    let data = await parseXML(await res.text());
+
+    let etags = new Map<string, string | null>();
+    for (let response of data['multistatus']['response'] || []) {
+      let href = url.resolve(this.url, text(response['href'][0]));
+      let props = foundProps(response);
+      etags.set(href, props['getetag'] ? text(props['getetag'][0]) : null);
+    }
+
+    let known = new Map<string, string | null>();
+    for (let resource of cache.resources(this.url)) {
+      if (etags.has(resource.href)) {
+        known.set(resource.href, resource.etag);
+      } else {
+        cache.remove(this.url, resource.href);
+      }
+    }
+    // Without an ETag, we can't tell whether a resource changed.
+    let changed = Array.from(etags.keys()).filter(href => {
+      let etag = etags.get(href);
+      return !etag || known.get(href) !== etag;
+    });
+    await this.fetchResources(changed);
+  }
+
+  /**
+   * Download some event resources into the cache.
+   */
+  private async fetchResources(hrefs: string[]) {
+    if (!hrefs.length) {
+      return;
+    }
+    let res = await this.request({
+      method: 'REPORT',
+      headers: { 'Depth': '1' },
+      body: multigetQuery(hrefs),
+    });
+    if (!res.ok) {
+      throw "error communicating with CalDAV server";
+    }
+    let data = await parseXML(await res.text());
+    for (let response of data['multistatus']['response'] || []) {
+      let props = foundProps(response);
+      if (props['calendar-data']) {
+        this.store(url.resolve(this.url, text(response['href'][0])), props);
+      }
+    }
+  }
+
+  /**
+   * Save a resource to the cache from its properties in a server response.
+   */
+  private store(href: string, props: any) {
+    let ics = text(props['calendar-data'][0]);
+    let [start, end] = icsutil.bounds(icsutil.parse(ics));
+    let etag = props['getetag'] ? text(props['getetag'][0]) : null;
+    this.cache!.put(this.url, { href, etag, ics, start, end });
+  }
+
+  /**
+   * Check whether a URL refers to this calendar collection itself, which some
+   * servers include in reports.
+   */
+  private isCollection(href: string) {
+    let strip = (u: string) => u.replace(/\/$/, '');
+    return strip(href) === strip(this.url);
+  }
+
+  /**
+   * Add a new event to the calendar by uploading it as a new ICS resource.
+   */
+  async createEvent(event: calbase.Event): Promise<calbase.Event> {
+    let uid = icsutil.newUID();
+    let resource = this.resourceURL(uid);
+    let res = await this.request({
+      url: resource,
+      method: 'PUT',
+      contentType: 'text/calendar; charset=utf-8',
+      headers: { 'If-None-Match': '*' },  // Never overwrite an existing event.
+      body: icsutil.serialize([icsutil.eventToICS(event, uid)]),
+    });
+    if (!res.ok) {
+      throw "error creating event on CalDAV server";
+    }
+    this.saveETag(resource, res.headers.get('ETag'));
+
+    return { ...event, id: resource };
+  }
+
+  /**
+   * Change an event's resource on the server: fetch the current version,
+   * let `f` modify it in place, and upload it again. Modifying the resource
+   * (rather than replacing it) means that any properties we don't
+   * understand (alarms, attendees, etc.) survive.
+   */
+  private async modify(resource: string, f: (cal: icsutil.Calendar) => void) {
+    // Get the current version of the event.
+    let getRes = await this.request({ url: resource, method: 'GET' });
+    if (!getRes.ok) {
+      throw "error fetching event from CalDAV server";
+    }
+    let etag = getRes.headers.get('ETag');
+    let known = this.etags.get(resource);
+    if (known && etag && known !== etag) {
+      throw "event was changed on the server";
     }
+    let cal = icsutil.parse(await getRes.text());
+    f(cal);
 
-    return events.map(eventFromICS);
+    // Upload the new version, failing if someone else got there first.
+    let putRes = await this.request({
+      url: resource,
+      method: 'PUT',
+      contentType: 'text/calendar; charset=utf-8',
+      headers: etag ? { 'If-Match': etag } : {},
+      body: cal.toString(),
+    });
+    if (putRes.status === 412) {
+      throw "event was changed on the server";
+    } else if (!putRes.ok) {
+      throw "error updating event on CalDAV server";
+    }
+    this.saveETag(resource, putRes.headers.get('ETag'));
+  }
+
+  /**
+   * Change an existing event's title and time. For an occurrence of a
+   * recurring event, only that occurrence changes.
+   */
+  async updateEvent(event: calbase.Event) {
+    if (!event.id) {
+      throw "cannot update an event without an id";
+    }
+    let [resource, rid] = icsutil.parseOccurrenceID(event.id);
+    await this.modify(resource, cal =>
+      icsutil.updateEventIn(cal, null, rid, event)
+    );
+    return event;
+  }
+
+  /**
+   * Remove an event's resource from the calendar. For an occurrence of a
+   * recurring event, we just exclude that occurrence.
+   */
+  async deleteEvent(id: string) {
+    let [resource, rid] = icsutil.parseOccurrenceID(id);
+    if (rid !== null) {
+      await this.modify(resource, cal =>
+        icsutil.removeOccurrence(cal, null, rid!)
+      );
+      return;
+    }
+
+    let res = await this.request({
+      url: id,
+      method: 'DELETE',
+      headers: this.ifMatch(id),
+    });
+    if (res.status === 412) {
+      throw "event was changed on the server";
+    } else if (!res.ok && res.status !== 404) {
+      throw "error deleting event from CalDAV server";
+    }
+    this.etags.delete(id);
   }
 }
@@ -0,0 +1,257 @@
+/**
+ * Computing busy and free time from calendar events.
+ */
+
+import * as moment from 'moment';
+import * as calbase from './calbase';
+
+/**
+ * A span of time, from `start` (inclusive) to `end` (exclusive).
+ */
+export interface Interval {
+  start: moment.Moment;
+  end: moment.Moment;
+}
+
+/**
+ * The hours of the day, in local time, when someone is available. Hours may
+ * be fractional, so 9.5 means 9:30.
+ */
+export interface WorkingHours {
+  start: number;
+  end: number;
+}
+
+/**
+ * Parameters for computing availability.
+ */
+export interface Options {
+  /**
+   * The part of each day that counts as available. By default, 9 to 5.
+   */
+  workingHours?: WorkingHours;
+
+  /**
+   * The days of the week that count as available, using Moment's numbering
+   * (0 is Sunday). By default, Monday through Friday.
+   */
+  workingDays?: number[];
+
+  /**
+   * Free intervals shorter than this are discarded.
+   */
+  minLength?: moment.Duration;
+
+  /**
+   * Extra time to leave before and after each busy event.
+   */
+  buffer?: moment.Duration;
+
+  /**
+   * Whether all-day events (holidays, birthdays, vacations) block the
+   * whole day. By default, they do.
+   */
+  allDayBusy?: boolean;
+}
+
+const DEFAULT_HOURS: WorkingHours = { start: 9, end: 17 };
+const DEFAULT_DAYS = [1, 2, 3, 4, 5];
+
+/**
+ * Check whether an event is an all-day event. If the calendar doesn't say,
+ * guess: all-day events start at midnight and last a whole number of days.
+ */
+export function isAllDay(event: calbase.Event) {
+  if (event.allDay !== undefined) {
+    return event.allDay;
+  }
+  let start = event.start;
+  let length = event.end.diff(start, 'minutes');
+  return start.isSame(start.clone().startOf('day')) &&
+    length > 0 && length % (24 * 60) === 0;
+}
+
+/**
+ * Sort a list of intervals and combine any that overlap or touch.
+ */
+export function merge(intervals: Interval[]): Interval[] {
+  let sorted = intervals
+    .filter(i => i.start.isBefore(i.end))
+    .sort((a, b) => a.start.diff(b.start));
+
+  let out: Interval[] = [];
+  for (let interval of sorted) {
+    let last = out[out.length - 1];
+    if (last && !interval.start.isAfter(last.end)) {
+      if (interval.end.isAfter(last.end)) {
+        last.end = interval.end.clone();
+      }
+    } else {
+      out.push({ start: interval.start.clone(), end: interval.end.clone() });
+    }
+  }
+  return out;
+}
+
+/**
+ * Get the merged intervals of time that a list of events occupies,
+ * including any buffer around each event. Events marked as free don't
+ * count.
+ */
+export function busy(events: calbase.Event[], options: Options = {}):
+  Interval[]
+{
+  let allDayBusy = options.allDayBusy === undefined ? true :
+    options.allDayBusy;
+
+  let intervals: Interval[] = [];
+  for (let event of events) {
+    if (event.availability === 'free') {
+      continue;
+    } else if (isAllDay(event)) {
+      if (allDayBusy) {
+        intervals.push({ start: event.start, end: event.end });
+      }
+    } else if (options.buffer) {
+      intervals.push({
+        start: event.start.clone().subtract(options.buffer),
+        end: event.end.clone().add(options.buffer),
+      });
+    } else {
+      intervals.push({ start: event.start, end: event.end });
+    }
+  }
+  return merge(intervals);
+}
+
+/**
+ * Remove the busy intervals from a single interval, producing the free
+ * pieces that remain. `busy` must be merged and sorted.
+ */
+function subtract(interval: Interval, busy: Interval[]): Interval[] {
+  let out: Interval[] = [];
+  let cursor = interval.start.clone();
+  for (let b of busy) {
+    if (!b.end.isAfter(cursor)) {
+      continue;
+    }
+    if (!b.start.isBefore(interval.end)) {
+      break;
+    }
+    if (b.start.isAfter(cursor)) {
+      out.push({ start: cursor, end: b.start.clone() });
+    }
+    cursor = moment.max(cursor, b.end.clone());
+  }
+  if (cursor.isBefore(interval.end)) {
+    out.push({ start: cursor, end: interval.end.clone() });
+  }
+  return out;
+}
+
+/**
+ * Get the time on a day when the clock reads some number of hours (which
+ * may be fractional). We set the wall-clock time rather than adding hours to
+ * midnight, which would be off by an hour on days when DST changes.
+ */
+export function atHour(day: moment.Moment, hours: number) {
+  if (hours >= 24) {
+    return day.clone().add(1, 'day').startOf('day');
+  }
+  let minutes = Math.round(hours * 60);
+  return day.clone().hours(Math.floor(minutes / 60)).minutes(minutes % 60)
+    .seconds(0).milliseconds(0);
+}
+
+/**
+ * Get the working-hours intervals for every working day in a range.
+ */
+export function workingIntervals(start: moment.Moment, end: moment.Moment,
+                                 options: Options = {}): Interval[] {
+  let hours = options.workingHours || DEFAULT_HOURS;
+  let days = options.workingDays || DEFAULT_DAYS;
+
+  let out: Interval[] = [];
+  for (let day = start.clone().startOf('day'); day.isBefore(end);
+       day.add(1, 'day')) {
+    if (days.indexOf(day.day()) === -1) {
+      continue;
+    }
+    let dayStart = atHour(day, hours.start);
+    let dayEnd = atHour(day, hours.end);
+    let interval = {
+      start: moment.max(dayStart, start.clone()),
+      end: moment.min(dayEnd, end.clone()),
+    };
+    if (interval.start.isBefore(interval.end)) {
+      out.push(interval);
+    }
+  }
+  return out;
+}
+
+/**
+ * Find the free intervals during working hours in a range of time, given
+ * the events that occupy it.
+ */
+export function free(events: calbase.Event[], start: moment.Moment,
+                     end: moment.Moment, options: Options = {}): Interval[] {
+  let busyTimes = busy(events, options);
+  let out: Interval[] = [];
+  for (let interval of workingIntervals(start, end, options)) {
+    out.push(...subtract(interval, busyTimes));
+  }
+
+  if (options.minLength) {
+    let min = options.minLength.asMilliseconds();
+    out = out.filter(i => i.end.diff(i.start) >= min);
+  }
+  return out;
+}
+
+/**
+ * Find the times common to two lists of merged, sorted intervals (e.g., two
+ * people's free time).
+ */
+export function intersect(a: Interval[], b: Interval[]): Interval[] {
+  let out: Interval[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    let start = moment.max(a[i].start, b[j].start);
+    let end = moment.min(a[i].end, b[j].end);
+    if (start.isBefore(end)) {
+      out.push({ start: start.clone(), end: end.clone() });
+    }
+    if (a[i].end.isBefore(b[j].end)) {
+      ++i;
+    } else {
+      ++j;
+    }
+  }
+  return out;
+}
+
+/**
+ * Cut free intervals into candidate slots of a given length, with start
+ * times aligned to multiples of `step` past the hour.
+ */
+export function slots(intervals: Interval[], length: moment.Duration,
+                      step = moment.duration(30, 'minutes')): Interval[] {
+  let stepMins = step.asMinutes();
+  let out: Interval[] = [];
+  for (let interval of intervals) {
+    // Round up to the next aligned start time.
+    let t = interval.start.clone().startOf('minute');
+    let offset = t.minutes() % stepMins;
+    if (offset || t.isBefore(interval.start)) {
+      t.add(stepMins - offset, 'minutes');
+    }
+
+    for (; !t.clone().add(length).isAfter(interval.end);
+         t.add(stepMins, 'minutes')) {
+      out.push({ start: t.clone(), end: t.clone().add(length) });
+    }
+  }
+  return out;
+}
@@ -0,0 +1,130 @@
+/**
+ * A calendar source backed by an iCalendar (`.ics`) file on disk. This is
+ * handy for trying out the bot without an account anywhere and for testing
+ * against known data.
+ */
+
+import * as fs from 'fs';
+import * as icsutil from './icsutil';
+import * as calbase from './calbase';
+import * as moment from 'moment-timezone';
+
+/**
+ * Read a file, producing null if it doesn't exist.
+ */
+function readFile(path: string): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    fs.readFile(path, 'utf8', (err, data) => {
+      if (err && err.code === 'ENOENT') {
+        resolve(null);
+      } else if (err) {
+        reject(err);
+      } else {
+        resolve(data);
+      }
+    });
+  });
+}
+
+/**
+ * Replace a file's contents. We write a temporary file and then move it into
+ * place so that the file is never left half-written.
+ */
+function writeFile(path: string, data: string): Promise<void> {
+  let tmp = `${path}.tmp`;
+  return new Promise<void>((resolve, reject) => {
+    fs.writeFile(tmp, data, { encoding: 'utf8' }, (err) => {
+      if (err) {
+        reject(err);
+        return;
+      }
+      fs.rename(tmp, path, (err) => err ? reject(err) : resolve());
+    });
+  });
+}
+
+/**
+ * A calendar stored in a local file. Events are identified by their UIDs
+ * (and occurrences of recurring events also by their recurrence IDs).
+ * The file is created when the first event is added.
+ */
+export class Calendar implements calbase.Calendar {
+  /**
+   * The end of the chain of pending changes. Each change waits for the
+   * previous one so that concurrent changes don't clobber each other.
+   */
+  private pending: Promise<any> = Promise.resolve();
+
+  constructor(
+    public path: string,
+    public zone = moment.tz.guess(),
+  ) {}
+
+  /**
+   * Read and parse the file, or produce an empty calendar if it doesn't
+   * exist yet.
+   */
+  async load(): Promise<icsutil.Calendar> {
+    let data = await readFile(this.path);
+    return data === null ? icsutil.makeCalendar() : icsutil.parse(data);
+  }
+
+  /**
+   * Change the calendar: load it, let `f` modify it in place, and then save
+   * it. Produces whatever `f` does.
+   */
+  modify<T>(f: (cal: icsutil.Calendar) => T): Promise<T> {
+    let result = this.pending.then(async () => {
+      let cal = await this.load();
+      let out = f(cal);
+      await writeFile(this.path, cal.toString());
+      return out;
+    });
+    this.pending = result.catch(() => {});  // Keep going after failures.
+    return result;
+  }
+
+  async getEvents(start: moment.Moment, end: moment.Moment) {
+    await this.pending;
+    return icsutil.eventsInRange(await this.load(), start, end, this.zone,
+                                 uid => uid);
+  }
+
+  async createEvent(event: calbase.Event) {
+    let uid = icsutil.newUID();
+    return await this.modify(cal => {
+      icsutil.addEvent(cal, icsutil.eventToICS(event, uid));
+      return { ...event, id: uid, uid };
+    });
+  }
+
+  async updateEvent(event: calbase.Event) {
+    if (!event.id) {
+      throw "cannot update an event without an id";
+    }
+    let [uid, rid] = icsutil.parseOccurrenceID(event.id);
+    return await this.modify(cal => {
+      icsutil.updateEventIn(cal, uid, rid, event);
+      return event;
+    });
+  }
+
+  async deleteEvent(id: string) {
+    let [uid, rid] = icsutil.parseOccurrenceID(id);
+    if (rid !== null) {
+      await this.modify(cal => icsutil.removeOccurrence(cal, uid, rid!));
+      return;
+    }
+    await this.modify(cal => {
+      // Remove the event along with any modified instances.
+      let vevents = cal.getAllSubcomponents('vevent')
+        .filter(c => c.getFirstPropertyValue('uid') === id);
+      if (!vevents.length) {
+        throw "no such event";
+      }
+      for (let vevent of vevents) {
+        cal.removeSubcomponent(vevent);
+      }
+    });
+  }
+}
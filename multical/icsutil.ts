@@ -1,8 +1,12 @@
 import * as ical from 'ical.js';
+import * as crypto from 'crypto';
+import * as moment from 'moment-timezone';
+import * as calbase from './calbase';
 
 export type Calendar = ical.Component;
 export type Event = ical.Event;
 export type Time = ical.Time;
+export type Occurrence = ical.OccurrenceDetails;
 
 /**
  * Get the bounds of the current week.
@@ -17,61 +21,279 @@ export function thisWeek(): [Time, Time] {
 
 /**
  * Parse the first component from an iCal document. Can raise a ParseError.
+ *
+ * Any time zones defined in the document are registered so that times that
+ * refer to them (via TZID) are interpreted correctly.
  */
 export function parse(s: string): Calendar {
   let jcal = ical.parse(s);
-  return new ical.Component(jcal as any);
+  let cal = new ical.Component(jcal as any);
+  registerTimezones(cal);
+  return cal;
+}
+
+/**
+ * Register the VTIMEZONE definitions in a calendar with ical.js. Times are
+ * parsed lazily, so this works as long as it happens before we read them.
+ */
+function registerTimezones(cal: Calendar) {
+  for (let vtimezone of cal.getAllSubcomponents('vtimezone')) {
+    let zone = new ical.Timezone(vtimezone);
+    ical.TimezoneService.register(zone.tzid, zone);
+  }
 }
 
 /**
  * Generate all the Events in a calendar.
+ *
+ * Modified instances of a recurring event (VEVENTs with a RECURRENCE-ID)
+ * are attached to their master event rather than produced on their own, so
+ * `eventOcurrences` can substitute them. An instance whose master is not in
+ * the calendar is produced by itself.
  */
 export function* getEvents(cal: Calendar): Iterable<Event> {
-  for (let vevent of cal.getAllSubcomponents('vevent')) {
-    yield new ical.Event(vevent);
+  let events = cal.getAllSubcomponents('vevent').map(v => new ical.Event(v));
+
+  let masters = new Map<string, Event>();
+  for (let event of events) {
+    if (!event.isRecurrenceException()) {
+      masters.set(event.uid, event);
+    }
+  }
+
+  for (let event of events) {
+    let master = masters.get(event.uid);
+    if (!event.isRecurrenceException()) {
+      yield event;
+    } else if (master) {
+      master.relateException(event);
+    } else {
+      yield event;
+    }
   }
 }
 
 /**
- * Get all the occurrences of a given Event in a time range. This works on
- * both repeating and non-repeating events: non-repeating events just have
- * a single "occurrence."
+ * Check whether an occurrence overlaps a time range.
  */
-export function* eventOcurrences(event: Event, start: Time, end: Time) {
+function overlaps(occ: Occurrence, start: Time, end: Time) {
+  return occ.endDate.compare(start) === 1  // endDate > start
+    && occ.startDate.compare(end) === -1;  // startDate < end
+}
+
+/**
+ * Get all the occurrences of a given Event that overlap a time range. This
+ * works on both repeating and non-repeating events: non-repeating events
+ * just have a single "occurrence."
+ *
+ * For recurring events, dates excluded by EXDATE are skipped and modified
+ * instances (see `getEvents`) replace the occurrences they override, with
+ * their own times and details. Each occurrence's end time is its own.
+ */
+export function* eventOcurrences(event: Event, start: Time, end: Time):
+  Iterable<Occurrence>
+{
   if (event.isRecurring()) {
     // Multiple occurrences.
     let it = event.iterator();
     let tm: ical.Time | null = null;
     while (tm = it.next()) {
-      if (tm.compare(end) === 1) {  // tm > end
+      if (tm.compare(end) !== -1) {  // tm >= end
         break;
       }
-      if (tm.compare(start) !== -1) {  // tm >= start
-        yield tm;
+      let occ = event.getOccurrenceDetails(tm);
+      if (overlaps(occ, start, end)) {
+        yield occ;
       }
     }
 
   } else {
     // Just one "occurrence".
-    if (event.endDate.compare(start) !== -1  // endDate >= start
-        && event.startDate.compare(end) !== 1) {  // startDate <= end
-      yield event.startDate;
+    let occ = {
+      recurrenceId: event.startDate,
+      item: event,
+      startDate: event.startDate,
+      endDate: event.endDate,
+    };
+    if (overlaps(occ, start, end)) {
+      yield occ;
     }
   }
 }
 
 /**
- * Generate event/start-time pairs for all the occurrenes of all the events
- * in a calendar in a given range.
+ * Generate all the occurrences of all the events in a calendar that overlap
+ * a given range. The `item` of each occurrence is the event it came from
+ * (which may be a modified instance).
  */
 export function* getOccurrences(cal: Calendar, start: Time, end: Time):
-  Iterable<[Event, Time]>
+  Iterable<Occurrence>
 {
   for (let event of getEvents(cal)) {
-    for (let tm of eventOcurrences(event, start, end)) {
-      yield [event, tm];
+    yield* eventOcurrences(event, start, end);
+  }
+}
+
+/**
+ * Convert from an iCal time structure into a Moment in the given zone.
+ *
+ * All-day dates and "floating" times have no zone of their own (nor do times
+ * whose TZID has no definition), so we take them to be in that zone too.
+ */
+function dateFromICS(time: ical.Time, zone: string): moment.Moment {
+  if (time.zone === ical.Timezone.localTimezone) {
+    return moment.tz([time.year, time.month - 1, time.day,
+                      time.hour, time.minute, time.second], zone);
+  }
+  return moment.tz(time.toUnixTime() * 1000, zone);
+}
+
+/**
+ * Attendees' participation status (PARTSTAT), in our terms. Anything else
+ * (including DELEGATED) counts as no response.
+ */
+const RESPONSE_STATUS: { [partstat: string]: calbase.ResponseStatus } = {
+  'ACCEPTED': 'accepted',
+  'TENTATIVE': 'tentative',
+  'DECLINED': 'declined',
+};
+
+/**
+ * Access classifications (CLASS), in our terms.
+ */
+const PRIVACY: { [cls: string]: calbase.Privacy } = {
+  'PUBLIC': 'public',
+  'PRIVATE': 'private',
+  'CONFIDENTIAL': 'confidential',
+};
+
+/**
+ * Get a single parameter of an iCal property as a string, if it's there.
+ */
+function param(prop: ical.Property, name: string): string | undefined {
+  let value = prop.getParameter(name);
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Convert an ORGANIZER or ATTENDEE property, whose value is an address like
+ * "mailto:someone@example.com", into a person.
+ */
+function personFromICS(prop: ical.Property): calbase.Person {
+  return {
+    email: prop.getFirstValue().replace(/^mailto:/i, ''),
+    name: param(prop, 'cn'),
+  };
+}
+
+/**
+ * Convert an ATTENDEE property into an attendee.
+ */
+function attendeeFromICS(prop: ical.Property): calbase.Attendee {
+  let partstat = (param(prop, 'partstat') || '').toUpperCase();
+  return {
+    ...personFromICS(prop),
+    status: RESPONSE_STATUS[partstat] || 'needs-action',
+  };
+}
+
+/**
+ * Convert one occurrence of a parsed iCal event into our common event
+ * representation, with times in the given zone. The `id` is up to the
+ * backend.
+ */
+export function eventFromICS(occ: Occurrence, zone: string, id?: string):
+  calbase.Event
+{
+  let event = occ.item;
+  let vevent = event.component;
+  let organizer = vevent.getFirstProperty('organizer');
+  let cls = vevent.getFirstPropertyValue('class');
+  return {
+    id,
+    uid: event.uid,
+    title: event.summary,
+    start: dateFromICS(occ.startDate, zone),
+    end: dateFromICS(occ.endDate, zone),
+    allDay: occ.startDate.isDate,
+    location: event.location || undefined,
+    description: event.description || undefined,
+    organizer: organizer ? personFromICS(organizer) : undefined,
+    attendees: event.attendees.map(attendeeFromICS),
+    availability: vevent.getFirstPropertyValue('transp') === 'TRANSPARENT' ?
+      'free' : 'busy',
+    privacy: cls ? PRIVACY[cls.toUpperCase()] : undefined,
+    url: vevent.getFirstPropertyValue('url') || undefined,
+  };
+}
+
+/**
+ * Get the occurrences of all the events in a calendar that overlap a range
+ * of time, in our common event representation. The events' IDs are based
+ * on `id`: either the same for every event or, if it's a function, derived
+ * from each event's UID. Occurrences of recurring events also get their
+ * recurrence IDs (see `occurrenceID`).
+ */
+export function eventsInRange(cal: Calendar, start: moment.Moment,
+                              end: moment.Moment, zone: string,
+                              id?: string | ((uid: string) => string)):
+  calbase.Event[]
+{
+  // Floating times and all-day dates are in the user's zone, but ical.js
+  // compares them as if they were in UTC. So we look for occurrences in a
+  // slightly wider range and then narrow it down once the times are
+  // properly converted.
+  let from = timeFromDate(start.clone().subtract(1, 'day').toDate());
+  let to = timeFromDate(end.clone().add(1, 'day').toDate());
+  let events: calbase.Event[] = [];
+  for (let occ of getOccurrences(cal, from, to)) {
+    let base = typeof id === 'function' ? id(occ.item.uid) : id;
+    let event = eventFromICS(occ, zone,
+                             base === undefined ? base :
+                               occurrenceID(base, occ));
+    if (event.end.isAfter(start) && event.start.isBefore(end)) {
+      events.push(event);
     }
   }
+  return events;
+}
+
+/**
+ * A time far enough in the future to stand for "forever" (in milliseconds).
+ * Unlike `Infinity`, this survives being stored as JSON.
+ */
+export const FOREVER = Number.MAX_SAFE_INTEGER;
+
+/**
+ * Get the span of time that a calendar's events could occupy, as Unix
+ * timestamps in milliseconds. This is conservative: we add a day on each side
+ * for floating times and all-day dates, and recurring events that never end
+ * (or end after a number of occurrences) last `FOREVER`.
+ */
+export function bounds(cal: Calendar): [number, number] {
+  let day = 24 * 60 * 60 * 1000;
+  let start = FOREVER;
+  let end = -FOREVER;
+  for (let vevent of cal.getAllSubcomponents('vevent')) {
+    let event = new ical.Event(vevent);
+    if (!event.startDate) {
+      continue;
+    }
+    start = Math.min(start, event.startDate.toUnixTime() * 1000 - day);
+
+    let last = event.endDate.toUnixTime() * 1000;
+    if (event.isRecurring()) {
+      let rrule = vevent.getFirstPropertyValue('rrule') as any as ical.Recur;
+      if (rrule && rrule.until && !vevent.hasProperty('rdate')) {
+        last = rrule.until.toUnixTime() * 1000 +
+          event.duration.toSeconds() * 1000;
+      } else {
+        last = FOREVER;
+      }
+    }
+    end = Math.max(end, Math.min(last + day, FOREVER));
+  }
+  return [start, end];
 }
 
 /**
@@ -86,3 +308,288 @@ function dateOfTime(time: Time): Time {
       isDate: true,
   }, time.zone);
 }
+
+/**
+ * Generate a fresh, globally unique identifier for a new event.
+ */
+export function newUID(): string {
+  return crypto.randomBytes(16).toString('hex') + '@opal-bot';
+}
+
+/**
+ * Convert a JavaScript date into an iCal time in UTC.
+ */
+export function timeFromDate(date: Date): Time {
+  return ical.Time.fromJSDate(date, true);
+}
+
+/**
+ * Create a new, standalone VEVENT with the basic properties set.
+ */
+export function makeEvent(uid: string, summary: string,
+                          start: Time, end: Time): Event {
+  let event = new ical.Event(new ical.Component('vevent'));
+  event.uid = uid;
+  event.summary = summary;
+  event.startDate = start;
+  event.endDate = end;
+  return event;
+}
+
+/**
+ * Convert the date of a Moment, in its own zone, into an all-day iCal date.
+ */
+function dateFromMoment(m: moment.Moment): Time {
+  return new ical.Time({
+    year: m.year(),
+    month: m.month() + 1,
+    day: m.date(),
+    isDate: true,
+  });
+}
+
+/**
+ * Convert our common event representation into a new iCal event with the
+ * given UID.
+ */
+export function eventToICS(event: calbase.Event, uid: string): Event {
+  let convert = event.allDay ? dateFromMoment :
+    (m: moment.Moment) => timeFromDate(m.toDate());
+  let out = makeEvent(
+    uid,
+    event.title,
+    convert(event.start),
+    convert(event.end),
+  );
+  if (event.location) {
+    out.location = event.location;
+  }
+  if (event.description) {
+    out.description = event.description;
+  }
+  return out;
+}
+
+/**
+ * Change an existing iCal event in place to match our representation. Only
+ * the title, time, location, and description change; any properties we
+ * don't understand (alarms, attendees, etc.) survive.
+ */
+export function updateICS(out: Event, event: calbase.Event) {
+  let convert = event.allDay ? dateFromMoment :
+    (m: moment.Moment) => timeFromDate(m.toDate());
+  out.summary = event.title;
+  out.startDate = convert(event.start);
+  out.endDate = convert(event.end);
+  if (event.location !== undefined) {
+    out.location = event.location;
+  }
+  if (event.description !== undefined) {
+    out.description = event.description;
+  }
+}
+
+/**
+ * Separates an event's ID from the recurrence ID of one of its occurrences.
+ */
+const OCCURRENCE_SEPARATOR = '#';
+
+/**
+ * Get the ID for one occurrence of an event whose own ID is `id`. Each
+ * occurrence of a recurring event gets its recurrence ID tacked on, so that
+ * changes can go to just that occurrence.
+ */
+export function occurrenceID(id: string, occ: Occurrence): string {
+  let event = occ.item;
+  if (event.isRecurrenceException()) {
+    return id + OCCURRENCE_SEPARATOR + event.recurrenceId.toICALString();
+  } else if (event.isRecurring()) {
+    return id + OCCURRENCE_SEPARATOR + occ.recurrenceId.toICALString();
+  }
+  return id;
+}
+
+/**
+ * Split an ID from `occurrenceID` into the event's ID and the occurrence's
+ * recurrence ID (or null for events that don't recur).
+ */
+export function parseOccurrenceID(id: string): [string, string | null] {
+  let sep = id.lastIndexOf(OCCURRENCE_SEPARATOR);
+  let rid = id.slice(sep + 1);
+  if (sep === -1 || !/^\d{8}(T\d{6}Z?)?$/.test(rid)) {
+    return [id, null];
+  }
+  return [id.slice(0, sep), rid];
+}
+
+/**
+ * Find the master event (as opposed to the modified instances) with a UID,
+ * or the first event if `uid` is null.
+ */
+function findMaster(cal: Calendar, uid: string | null): Event | null {
+  for (let vevent of cal.getAllSubcomponents('vevent')) {
+    let event = new ical.Event(vevent);
+    if ((uid === null || event.uid === uid) &&
+        !event.isRecurrenceException()) {
+      return event;
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the modified instance of a recurring event that overrides one
+ * occurrence, if there is one.
+ */
+function findInstance(cal: Calendar, uid: string, rid: string):
+  Event | null
+{
+  for (let vevent of cal.getAllSubcomponents('vevent')) {
+    let event = new ical.Event(vevent);
+    if (event.uid === uid && event.isRecurrenceException() &&
+        event.recurrenceId.toICALString() === rid) {
+      return event;
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the (original) time of a recurring event's occurrence from its
+ * recurrence ID. All the times in a series have the same form, so they
+ * sort like their strings and we can stop looking once we pass it.
+ */
+function findRecurrence(event: Event, rid: string): Time | null {
+  let it = event.iterator();
+  let tm: ical.Time | null = null;
+  while (tm = it.next()) {
+    let s = tm.toICALString();
+    if (s === rid) {
+      return tm;
+    } else if (s > rid) {
+      break;
+    }
+  }
+  return null;
+}
+
+/**
+ * Add a property holding one of a recurring event's original times (i.e.,
+ * RECURRENCE-ID or EXDATE) to an event. The time takes the same TZID as the
+ * master event's DTSTART, even when we don't have the zone's definition.
+ */
+function addRecurrenceTime(vevent: ical.Component, name: string,
+                           master: Event, time: Time) {
+  let prop = new ical.Property(name);
+  let tzid = param(master.component.getFirstProperty('dtstart'), 'tzid');
+  if (tzid) {
+    prop.setParameter('tzid', tzid);
+  }
+  prop.setValue(time);
+  vevent.addProperty(prop);
+}
+
+/**
+ * Change an event in a calendar in place to match our representation. With
+ * a recurrence ID, only that occurrence changes: we update its modified
+ * instance, adding one (a copy of the master event with a RECURRENCE-ID) if
+ * it doesn't have one yet. Otherwise, the master event changes. When `uid`
+ * is null, we use the first event, for calendars that hold just one.
+ */
+export function updateEventIn(cal: Calendar, uid: string | null,
+                              rid: string | null, event: calbase.Event) {
+  let master = findMaster(cal, uid);
+  if (rid === null) {
+    if (!master) {
+      throw "no such event";
+    }
+    updateICS(master, event);
+    return;
+  }
+
+  let instance = master && findInstance(cal, master.uid, rid);
+  if (!instance) {
+    let recurrenceId = master && findRecurrence(master, rid);
+    if (!master || !recurrenceId) {
+      throw "no such event";
+    }
+    let jcal = JSON.parse(JSON.stringify(master.component.toJSON()));
+    let vevent = new ical.Component(jcal);
+    for (let name of ['rrule', 'rdate', 'exdate']) {
+      vevent.removeAllProperties(name);
+    }
+    addRecurrenceTime(vevent, 'recurrence-id', master, recurrenceId);
+    instance = new ical.Event(vevent);
+    cal.addSubcomponent(vevent);
+  }
+  updateICS(instance, event);
+}
+
+/**
+ * Remove one occurrence of a recurring event from a calendar by excluding
+ * its date (with EXDATE) and dropping any modified instance for it. When
+ * `uid` is null, we use the first event.
+ */
+export function removeOccurrence(cal: Calendar, uid: string | null,
+                                 rid: string) {
+  let master = findMaster(cal, uid);
+  let recurrenceId = master && findRecurrence(master, rid);
+  if (!master || !recurrenceId) {
+    throw "no such event";
+  }
+
+  let instance = findInstance(cal, master.uid, rid);
+  if (instance) {
+    cal.removeSubcomponent(instance.component);
+  }
+
+  addRecurrenceTime(master.component, 'exdate', master, recurrenceId);
+}
+
+/**
+ * Add an event to a calendar, giving it a DTSTAMP if it doesn't have one.
+ */
+export function addEvent(cal: Calendar, event: Event) {
+  let vevent = event.component;
+  if (!vevent.hasProperty('dtstamp')) {
+    vevent.addPropertyWithValue('dtstamp', timeFromDate(new Date()));
+  }
+  cal.addSubcomponent(vevent);
+}
+
+/**
+ * Create a new VCALENDAR document containing some events.
+ */
+export function makeCalendar(events: Event[] = []): Calendar {
+  let cal = new ical.Component('vcalendar');
+  cal.addPropertyWithValue('prodid', '-//opal-bot//EN');
+  cal.addPropertyWithValue('version', '2.0');
+  for (let event of events) {
+    addEvent(cal, event);
+  }
+  return cal;
+}
+
+/**
+ * Wrap some events in a new VCALENDAR document and produce its ICS source.
+ */
+export function serialize(events: Event[]): string {
+  return makeCalendar(events).toString();
+}
+
+/**
+ * Produce the ICS source for a feed of events that other calendar apps can
+ * subscribe to. Each occurrence of a recurring event is its own VEVENT, with
+ * a UID that stays the same from one fetch of the feed to the next.
+ */
+export function feed(name: string, events: calbase.Event[]): string {
+  let cal = makeCalendar();
+  cal.addPropertyWithValue('x-wr-calname', name);
+  for (let event of events) {
+    let key = event.uid || event.id || event.title;
+    let hash = crypto.createHash('sha1')
+      .update(`${key}@${event.start.valueOf()}`).digest('hex');
+    addEvent(cal, eventToICS(event, `${hash}@opal-bot`));
+  }
+  return cal.toString();
+}
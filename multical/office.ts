@@ -10,7 +10,7 @@ import * as crypto from 'crypto';
 import * as outlook from 'node-outlook';
 import * as jwt from 'jsonwebtoken';
 import * as calbase from './calbase';
-import * as moment from 'moment';
+import * as moment from 'moment-timezone';
 
 /**
  * OAuth2 parameters for connecting to Office 365.
@@ -55,11 +55,42 @@ async function randomString(bytes = 32): Promise<string> {
  */
 export type Token = oauth2.AccessToken;
 
+/**
+ * A token as it looks after being stored: the data without the methods.
+ */
+export type StoredToken = { token: oauth2.Token };
+
 /**
  * The type for callbacks for successful authentication.
  */
 export type TokenHandler = (token: Token) => void;
 
+/**
+ * The error for requests when the user's token has expired and cannot be
+ * refreshed. The user needs to log in again.
+ */
+export const REAUTHORIZE = "Office 365 authorization expired";
+
+/**
+ * The HTTP status for requests with an invalid or expired token.
+ */
+const UNAUTHORIZED = 401;
+
+/**
+ * The OAuth errors that mean the refresh token itself is no good (it
+ * expired, was revoked, or the user needs to consent again).
+ */
+const GRANT_ERRORS = ['invalid_grant', 'interaction_required'];
+
+/**
+ * Check whether a failed token refresh means the user must log in again, as
+ * opposed to a transient problem like a network error.
+ */
+function needsLogin(err: any) {
+  let body = err && err.context;
+  return !!body && GRANT_ERRORS.indexOf(body.error) !== -1;
+}
+
 /**
  * An Office 365 authentication request.
  */
@@ -143,6 +174,14 @@ export class Client {
     return { url, token: promise };
   }
 
+  /**
+   * Reconstitute a token that has been stored (e.g., as JSON) so that it can
+   * be refreshed.
+   */
+  revive(stored: StoredToken): Token {
+    return this.auth.accessToken.create(stored.token);
+  }
+
   /**
    * Our internal callback for when the authentication URL is triggered.
    */
@@ -158,10 +197,21 @@ export class Client {
 }
 
 /**
- * Given a `Moment`, format a string for the Office 365 REST API.
+ * Given a `Moment`, format a string for the Office 365 REST API's query
+ * parameters. We include the UTC designator so the time is unambiguous.
+ */
+function dateToOfficeQuery(m: moment.Moment): string {
+  return m.clone().utc().format('YYYY-MM-DDTHH:mm:ss[Z]');
+}
+
+/**
+ * Convert a `Moment` into the Office API's representation for dates, in UTC.
  */
-function dateToOfficeLocal(m: moment.Moment): string {
-  return m.format('YYYY-MM-DDThh:mm:ss');
+function dateToOffice(m: moment.Moment): outlook.DateTime {
+  return {
+    DateTime: m.clone().utc().format('YYYY-MM-DDTHH:mm:ss'),
+    TimeZone: 'UTC',
+  };
 }
 
 /**
@@ -184,20 +234,95 @@ function emailFromToken(token: Token): string {
 /**
  * Convert a date from the office API's representation into a Moment.
  */
-function dateFromOffice(dt: outlook.DateTime): moment.Moment {
-  // TODO: We're currently ignoring the embedded time zone.
-  return moment(dt.DateTime);
+function dateFromOffice(dt: outlook.DateTime, zone: string): moment.Moment {
+  // We ask the API for times in UTC (see `Calendar.call`) and convert them
+  // ourselves. The API's own zone names can be Windows names that moment
+  // doesn't know, and guessing would silently shift the times.
+  if (dt.TimeZone !== 'UTC' && !moment.tz.zone(dt.TimeZone)) {
+    throw `unknown time zone from Office 365: ${dt.TimeZone}`;
+  }
+  return moment.tz(dt.DateTime, dt.TimeZone).tz(zone);
+}
+
+/**
+ * Attendees' responses, in our terms. The others ("None", "NotResponded",
+ * and "Organizer") count as no response.
+ */
+const RESPONSE_STATUS: { [response: string]: calbase.ResponseStatus } = {
+  'Accepted': 'accepted',
+  'TentativelyAccepted': 'tentative',
+  'Declined': 'declined',
+};
+
+/**
+ * Event sensitivity levels, in our terms.
+ */
+const PRIVACY: { [sensitivity: string]: calbase.Privacy } = {
+  'Normal': 'public',
+  'Personal': 'private',
+  'Private': 'private',
+  'Confidential': 'confidential',
+};
+
+/**
+ * Convert an email address from the Office API into a person.
+ */
+function personFromOffice(address: outlook.EmailAddress): calbase.Person {
+  return {
+    email: address.Address,
+    name: address.Name || undefined,
+  };
 }
 
 /**
  * Convert an event from the office API into our public representation.
  */
-function eventFromOffice(event: outlook.Event): calbase.Event {
+function eventFromOffice(event: outlook.Event, zone: string): calbase.Event {
+  // The body may be HTML; the preview is always plain text (but may be
+  // truncated).
+  let body = event.Body;
+  let description = (body && body.ContentType === 'Text') ?
+    body.Content : event.BodyPreview;
+
   return {
+    id: event.Id,
+    uid: event.iCalUId || undefined,
     title: event.Subject,
-    start: dateFromOffice(event.Start),
-    end: dateFromOffice(event.End),
+    start: dateFromOffice(event.Start, zone),
+    end: dateFromOffice(event.End, zone),
+    allDay: event.IsAllDay,
+    location: (event.Location && event.Location.DisplayName) || undefined,
+    description: description || undefined,
+    organizer: event.Organizer ?
+      personFromOffice(event.Organizer.EmailAddress) : undefined,
+    attendees: (event.Attendees || []).map(a => ({
+      ...personFromOffice(a.EmailAddress),
+      status: (a.Status && RESPONSE_STATUS[a.Status.Response]) ||
+        'needs-action',
+    })),
+    availability: event.ShowAs === 'Free' ? 'free' : 'busy',
+    privacy: PRIVACY[event.Sensitivity],
+    url: event.WebLink || undefined,
+  };
+}
+
+/**
+ * Convert one of our events into the Office API's representation, for
+ * creating or updating events.
+ */
+function eventToOffice(event: calbase.Event): Partial<outlook.Event> {
+  let out: Partial<outlook.Event> = {
+    Subject: event.title,
+    Start: dateToOffice(event.start),
+    End: dateToOffice(event.end),
   };
+  if (event.location !== undefined) {
+    out.Location = { DisplayName: event.location };
+  }
+  if (event.description !== undefined) {
+    out.Body = { ContentType: 'Text', Content: event.description };
+  }
+  return out;
 }
 
 /**
@@ -206,7 +331,8 @@ function eventFromOffice(event: outlook.Event): calbase.Event {
  * This is a subset of the parameters for the underlying library. We provide
  * the authentication token and the user details.
  */
-type RequestParams = Pick<outlook.APICallParams, 'url' | 'method' | 'query'>;
+type RequestParams =
+  Pick<outlook.APICallParams, 'url' | 'method' | 'query' | 'payload'>;
 
 /**
  * Views onto a particular Office 365 user's calendar data.
@@ -214,16 +340,52 @@ type RequestParams = Pick<outlook.APICallParams, 'url' | 'method' | 'query'>;
 export class Calendar implements calbase.Calendar {
   public readonly email: string;
 
+  /**
+   * A callback for when the token is refreshed, so the new token can be
+   * saved.
+   */
+  public onrefresh: TokenHandler | null = null;
+
+  /**
+   * A callback for when the token can't be refreshed anymore, so the user
+   * needs to log in again.
+   */
+  public onexpire: (() => void) | null = null;
+
   constructor(
-    public readonly token: Token
+    public token: Token,
+    public zone = moment.tz.guess(),
   ) {
     this.email = emailFromToken(token);
   }
 
   /**
-   * Internal wrapper for Office API requests.
+   * Get a new access token using the refresh token. If the server rejects
+   * the refresh token, the user needs to log in again, so we fail with
+   * `REAUTHORIZE`. Other failures are passed along.
    */
-  request(params: RequestParams): Promise<any> {
+  async refresh() {
+    try {
+      this.token = await this.token.refresh();
+    } catch (err) {
+      console.error('token refresh failed', err);
+      if (!needsLogin(err)) {
+        throw err;
+      }
+      if (this.onexpire) {
+        this.onexpire();
+      }
+      throw REAUTHORIZE;
+    }
+    if (this.onrefresh) {
+      this.onrefresh(this.token);
+    }
+  }
+
+  /**
+   * Make a raw Office API call. Produces the response, whatever its status.
+   */
+  call(params: RequestParams): Promise<any> {
     // The Office API only wants the access token string. And the OAuth
     // library's typings don't make this public, so we need to resort to
     // a hack...
@@ -234,7 +396,7 @@ export class Calendar implements calbase.Calendar {
       token: atoken,
       user: {
         email: "xxx",  // Seems to be ignored?
-        timezone: "UTC",
+        timezone: "UTC",  // The zone for times in responses.
       },
       ...params
     };
@@ -244,16 +406,38 @@ export class Calendar implements calbase.Calendar {
       outlook.base.makeApiCall(fullParams, (error: any, response: any) => {
         if (error) {
           reject(error);
-        } else if (response.statusCode != 200) {
-          reject("HTTP error " + response.statusCode +
-                 "; body: " + JSON.stringify(response.body));
         } else {
-          resolve(response.body);
+          resolve(response);
         }
       });
     });
   }
 
+  /**
+   * Internal wrapper for Office API requests. Refreshes the token as needed
+   * and fails on HTTP errors.
+   */
+  async request(params: RequestParams): Promise<any> {
+    // Refresh the token first if we know it has expired.
+    if (this.token.expired()) {
+      await this.refresh();
+    }
+
+    // The token can also be revoked early, so try refreshing once if the
+    // server rejects it.
+    let response = await this.call(params);
+    if (response.statusCode === UNAUTHORIZED) {
+      await this.refresh();
+      response = await this.call(params);
+    }
+
+    if (response.statusCode < 200 || response.statusCode >= 300) {
+      throw "HTTP error " + response.statusCode +
+        "; body: " + JSON.stringify(response.body);
+    }
+    return response.body;
+  }
+
   /**
    * Get event instances from the user's calendar between the two dates.
    */
@@ -262,12 +446,58 @@ export class Calendar implements calbase.Calendar {
       url: 'https://outlook.office.com/api/v2.0/me/calendarview',
       method: 'GET',
       query: {
-        'StartDateTime': dateToOfficeLocal(start),
-        'EndDateTime': dateToOfficeLocal(end),
+        'StartDateTime': dateToOfficeQuery(start),
+        'EndDateTime': dateToOfficeQuery(end),
       },
     });
 
     let events: outlook.Event[] = data.value;
-    return events.map(eventFromOffice);
+    return events.map(e => eventFromOffice(e, this.zone));
+  }
+
+  /**
+   * Get the API URL for a specific event.
+   */
+  eventURL(id: string) {
+    return 'https://outlook.office.com/api/v2.0/me/events/' +
+      encodeURIComponent(id);
+  }
+
+  /**
+   * Add a new event to the user's default calendar.
+   */
+  async createEvent(event: calbase.Event) {
+    let data: outlook.Event = await this.request({
+      url: 'https://outlook.office.com/api/v2.0/me/events',
+      method: 'POST',
+      payload: eventToOffice(event),
+    });
+    return eventFromOffice(data, this.zone);
+  }
+
+  /**
+   * Change an existing event. Only the fields we know about are sent, so
+   * the rest of the event is left alone.
+   */
+  async updateEvent(event: calbase.Event) {
+    if (!event.id) {
+      throw "cannot update an event without an id";
+    }
+    let data: outlook.Event = await this.request({
+      url: this.eventURL(event.id),
+      method: 'PATCH',
+      payload: eventToOffice(event),
+    });
+    return eventFromOffice(data, this.zone);
+  }
+
+  /**
+   * Remove an event from the user's calendar.
+   */
+  async deleteEvent(id: string) {
+    await this.request({
+      url: this.eventURL(id),
+      method: 'DELETE',
+    });
   }
 }
@@ -0,0 +1,98 @@
+/**
+ * A read-only calendar source for published iCalendar feeds (`.ics` URLs,
+ * sometimes given with the `webcal:` scheme).
+ */
+
+import fetch from 'node-fetch';
+import * as icsutil from './icsutil';
+import * as calbase from './calbase';
+import * as moment from 'moment-timezone';
+
+/**
+ * The error for trying to change a subscribed calendar.
+ */
+export const READ_ONLY = "this calendar is read-only";
+
+/**
+ * A feed as we last fetched it, with the validators for asking the server
+ * whether it has changed.
+ */
+interface CachedFeed {
+  calendar: icsutil.Calendar;
+  etag: string | null;
+  lastModified: string | null;
+}
+
+/**
+ * Get the URL to actually fetch for a feed. `webcal:` is just a way of
+ * saying "subscribe to this" and is served over HTTPS (or HTTP).
+ */
+function feedURL(url: string) {
+  return url.replace(/^webcals?:\/\//i, 'https://');
+}
+
+/**
+ * A subscription to a published calendar feed.
+ */
+export class Calendar implements calbase.Calendar {
+  /**
+   * The feed as we last fetched it. Keep the same `Calendar` around to
+   * avoid downloading an unchanged feed again; the copy goes away with it.
+   */
+  private cached: CachedFeed | null = null;
+
+  constructor(
+    public url: string,
+    public zone = moment.tz.guess(),
+  ) {}
+
+  /**
+   * Get the feed's contents, using the cached copy if the server says it
+   * hasn't changed.
+   */
+  async fetch(): Promise<icsutil.Calendar> {
+    let cached = this.cached;
+    let headers: { [key: string]: string } = {
+      'Accept': 'text/calendar',
+      'User-Agent': 'opal/1.0.0',
+    };
+    if (cached && cached.etag) {
+      headers['If-None-Match'] = cached.etag;
+    }
+    if (cached && cached.lastModified) {
+      headers['If-Modified-Since'] = cached.lastModified;
+    }
+
+    let res = await fetch(feedURL(this.url), { headers });
+    if (res.status === 304 && cached) {
+      return cached.calendar;
+    } else if (!res.ok) {
+      throw "error fetching calendar feed";
+    }
+
+    let calendar = icsutil.parse(await res.text());
+    this.cached = {
+      calendar,
+      etag: res.headers.get('ETag'),
+      lastModified: res.headers.get('Last-Modified'),
+    };
+    return calendar;
+  }
+
+  async getEvents(start: moment.Moment, end: moment.Moment) {
+    let calendar = await this.fetch();
+    return icsutil.eventsInRange(calendar, start, end, this.zone);
+  }
+
+  async createEvent(event: calbase.Event): Promise<calbase.Event> {
+    throw READ_ONLY;
+  }
+
+  async updateEvent(event: calbase.Event): Promise<calbase.Event> {
+    throw READ_ONLY;
+  }
+
+  async deleteEvent(id: string): Promise<void> {
+    throw READ_ONLY;
+  }
+}
@@ -376,6 +376,13 @@ export class Event {
     */
     constructor(component?: Component, options?: { strictExceptions: boolean, exceptions: (Component|Event)[] });
 
+    /**
+    * The VEVENT component this event wraps.
+    *
+    * @type {Component}
+    */
+    component: Component;
+
     /**
     * List of related event exceptions.
     *
@@ -1835,7 +1842,7 @@ export class Time {
     *                                  opposed to a date-time)
     * @param {Timezone} zone timezone this position occurs in
     */
-    constructor(data: { year?: number, month?: number, day?: number, hour?: number, minute?: number, second?: number, isDate?: boolean }, zone: Timezone);
+    constructor(data: { year?: number, month?: number, day?: number, hour?: number, minute?: number, second?: number, isDate?: boolean }, zone?: Timezone);
 
     /**
     * The class identifier.
@@ -1860,6 +1867,21 @@ export class Time {
     */
     zone: Timezone;
 
+    /**
+    * The components of the date and time, in its timezone. Months start at 1.
+    */
+    year: number;
+    month: number;
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+
+    /**
+    * Whether this is a date (without a time of day).
+    */
+    isDate: boolean;
+
     /**
     * Internal uses to indicate that a change has been made and the next read
     * operation must attempt to normalize the value (for example changing the
@@ -2116,7 +2138,7 @@ export class Time {
     *
     * @return {string} ical date/date-time
     */
-    toICALstring(): string;
+    toICALString(): string;
 
     /**
     * The string representation of this date/time, in jCal form
@@ -2529,7 +2551,7 @@ export class Timezone {
 * @namespace
 * @alias TimezoneService
 */
-declare module TimezoneService {
+export module TimezoneService {
     /**
     * Checks if timezone id has been registered.
     *
@@ -41,7 +41,8 @@ interface Message {
 declare class Bot extends EventEmitter {
   constructor(opts: Options);
   getProfile(id: string, cb: Callback): void;
-  sendMessage(recipient: string, payload: Message, cb: Callback): void;
+  sendMessage(recipient: string, payload: Message, cb: Callback,
+              messagingType?: string, tag?: string): void;
   middleware(): (req: http.IncomingMessage, res: http.ServerResponse) => void;
 
   on(event: "message", listener: (event: MessageEvent) => void): this;
@@ -26,7 +26,8 @@ export interface APICallParams {
   token: string;
   user: User;
   method: string;
-  query: { [key: string]: string };
+  query?: { [key: string]: string };
+  payload?: any;
 }
 
 /**
@@ -79,7 +80,11 @@ export interface Event {
   End: DateTime;
   Location: { DisplayName: string };
   Recurrence: any;
-  Attendees: { Type: string, Status: any, EmailAddress: EmailAddress }[];
+  Attendees: {
+    Type: string,
+    Status: { Response: string, Time: string },
+    EmailAddress: EmailAddress,
+  }[];
   Organizer: { EmailAddress: EmailAddress }
 }
 